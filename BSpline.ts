@@ -0,0 +1,46 @@
+/// <reference path="BezierPath.ts" />
+
+/**
+ * Uniform cubic B-spline, smooth curve approximating control points (it doesn't pass through them).
+ * Open spline is clamped, so it starts at the first point and ends at the last one.
+ * Control points are converted into cubic Bezier segments, call update after changing them.
+ */
+class BSpline extends BezierPath {
+    public points: Vector2[];
+    public closed: boolean;
+
+    constructor(points: Vector2[], closed?: boolean) {
+        super();
+        this.points = points;
+        this.closed = closed || false;
+        this.update();
+        return this;
+    }
+
+    /**
+     * Rebuilds Bezier segments from control points
+     */
+    public update(): BSpline {
+        //https://www.math.ucla.edu/~baker/149.1.02w/handouts/dd_splines.pdf
+        let n: number = this.points.length;
+        if (n < 2) throw new Error('B-spline needs at least 2 points');
+        let points: Vector2[] = this.closed ? this.points.concat(this.points.slice(0, 3))
+            //Tripled end points clamp the curve to them
+            : [this.points[0], this.points[0]].concat(this.points, [this.points[n - 1], this.points[n - 1]]);
+
+        this.segments = [];
+        for (let i = 0; i + 3 < points.length; i++) {
+            let p0: Vector2 = points[i], p1: Vector2 = points[i + 1], p2: Vector2 = points[i + 2], p3: Vector2 = points[i + 3];
+            let segment: CubicBezier = new CubicBezier(
+                new Vector2((p0.x + 4 * p1.x + p2.x) / 6, (p0.y + 4 * p1.y + p2.y) / 6),
+                new Vector2((2 * p1.x + p2.x) / 3, (2 * p1.y + p2.y) / 3),
+                new Vector2((p1.x + 2 * p2.x) / 3, (p1.y + 2 * p2.y) / 3),
+                new Vector2((p1.x + 4 * p2.x + p3.x) / 6, (p1.y + 4 * p2.y + p3.y) / 6)
+            );
+            //Segments collapsed into a point by repeated end points are skipped
+            if (!segment.p0.equals(segment.p3) || !segment.p0.equals(segment.p1)) this.segments.push(segment);
+        }
+        this.updateArcLengths();
+        return this;
+    }
+}
@@ -0,0 +1,65 @@
+/// <reference path="Curve.ts" />
+/// <reference path="CubicBezier.ts" />
+
+/**
+ * Piecewise curve made of connected cubic Bezier segments.
+ * Every segment takes equal part of parameter range, e.g. with 4 segments the second one spans t from 0.25 to 0.5.
+ */
+class BezierPath extends Curve {
+    public segments: CubicBezier[];
+
+    constructor(segments?: CubicBezier[]) {
+        super();
+        this.segments = segments || [];
+        return this;
+    }
+
+    public getPoint(t: number): Vector2 {
+        let local = this._locate(t);
+        return this.segments[local.index].getPoint(local.t);
+    }
+
+    public getDerivative(t: number): Vector2 {
+        //Local parameter runs segments.length times faster than global one
+        let local = this._locate(t);
+        return this.segments[local.index].getDerivative(local.t).multiplyScalar(this.segments.length);
+    }
+
+    /**
+     * Splits path at parameter t, segment containing t is split in two
+     * @param {number} t
+     * @returns {BezierPath[]}
+     */
+    public split(t: number): BezierPath[] {
+        let local = this._locate(t);
+        let halves: CubicBezier[] = this.segments[local.index].split(local.t);
+        return [
+            new BezierPath(this.segments.slice(0, local.index).concat(halves[0])),
+            new BezierPath([halves[1]].concat(this.segments.slice(local.index + 1)))
+        ];
+    }
+
+    public getBounds(): { minX: number, minY: number, maxX: number, maxY: number } {
+        let corners: Array<{ x: number, y: number }> = [];
+        for (let segment of this.segments) {
+            let bounds = segment.getBounds();
+            corners.push({x: bounds.minX, y: bounds.minY}, {x: bounds.maxX, y: bounds.maxY});
+        }
+        return Polygon.GetBounds(corners);
+    }
+
+    protected getPieces(): number {
+        return Math.max(1, this.segments.length);
+    }
+
+    /**
+     * Finds segment containing global parameter t and local parameter inside it
+     * @private
+     */
+    private _locate(t: number): { index: number, t: number } {
+        if (this.segments.length === 0) throw new Error('Bezier path has no segments');
+        let scaled: number = Math.min(Math.max(t, 0), 1) * this.segments.length;
+        let index: number = Math.min(Math.floor(scaled), this.segments.length - 1);
+        return {index: index, t: scaled - index};
+    }
+}
@@ -0,0 +1,695 @@
+/**
+ * SPECIFICATION
+ *
+ * 1) AABB:object = {minX: number, minY: number, maxX: number, maxY: number}
+ * 2) Every index stores items together with their AABB and returns ids used by move and remove.
+ *    Candidate pairs are checked only by bounds and should be passed to Collision2D narrow phase functions.
+ */
+namespace Broadphase {
+
+    /**
+     * Interface of Point
+     */
+    interface Point {
+        x: number,
+        y: number,
+
+        [propName: string]: any;
+    }
+
+    /**
+     * Interface of axis-aligned bounding box
+     */
+    export interface AABB {
+        minX: number,
+        minY: number,
+        maxX: number,
+        maxY: number
+    }
+
+    /**
+     * Common interface of spatial indexes
+     */
+    export interface Index<T> {
+        insert(item: T, bounds: AABB): number;
+
+        move(id: number, bounds: AABB): void;
+
+        remove(id: number): void;
+
+        queryRect(bounds: AABB): T[];
+
+        queryPoint(point: Point): T[];
+
+        raycast(ray: Collision2D.Ray): T[];
+
+        getPairs(): Array<[T, T]>;
+    }
+
+    /**
+     * Creates bounding box of circle
+     * @param {{center: Point, radius: number}} circle Object with 'center':Point and 'radius':number property
+     * @returns {Broadphase.AABB}
+     */
+    export function FromCircle(circle: { center: Point, radius: number }): AABB {
+        return {
+            minX: circle.center.x - circle.radius,
+            minY: circle.center.y - circle.radius,
+            maxX: circle.center.x + circle.radius,
+            maxY: circle.center.y + circle.radius
+        };
+    }
+
+    /**
+     * Creates bounding box of polygon or line segment
+     * @param {Point[]} points Array of points
+     * @returns {Broadphase.AABB}
+     */
+    export function FromPoints(points: Point[]): AABB {
+        let bounds: AABB = {minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity};
+        for (let p of points) {
+            if (p.x < bounds.minX) bounds.minX = p.x;
+            if (p.y < bounds.minY) bounds.minY = p.y;
+            if (p.x > bounds.maxX) bounds.maxX = p.x;
+            if (p.y > bounds.maxY) bounds.maxY = p.y;
+        }
+        return bounds;
+    }
+
+    /**
+     * Checks if two bounding boxes overlaps each other (touching counts as overlapping)
+     * @param {Broadphase.AABB} a
+     * @param {Broadphase.AABB} b
+     * @returns {boolean}
+     */
+    export function Overlapping(a: AABB, b: AABB): boolean {
+        return a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+    }
+
+    /**
+     * Calculates distance along the ray at which it enters bounding box (slab method)
+     * @param {Broadphase.AABB} bounds
+     * @param {Collision2D.Ray} ray Object with 'origin':Point, 'direction':Point and optional 'maxDistance':number property
+     * @returns {number | null} Distance or null when ray misses
+     */
+    export function RaycastAABB(bounds: AABB, ray: Collision2D.Ray): number | null {
+        let length: number = Math.sqrt(ray.direction.x * ray.direction.x + ray.direction.y * ray.direction.y) || 1;
+        let dx: number = ray.direction.x / length, dy: number = ray.direction.y / length;
+        let tMin = 0, tMax: number = ray.maxDistance === undefined ? Infinity : ray.maxDistance;
+
+        let axes: Array<[number, number, number, number]> = [
+            [ray.origin.x, dx, bounds.minX, bounds.maxX],
+            [ray.origin.y, dy, bounds.minY, bounds.maxY]
+        ];
+        for (let [o, d, min, max] of axes) {
+            if (d === 0) {
+                if (o < min || o > max) return null;
+                continue;
+            }
+            let t1: number = (min - o) / d, t2: number = (max - o) / d;
+            if (t1 > t2) [t1, t2] = [t2, t1];
+            tMin = Math.max(tMin, t1);
+            tMax = Math.min(tMax, t2);
+            if (tMin > tMax) return null;
+        }
+        return tMin;
+    }
+
+    /**
+     * Uniform grid spatial hash.
+     * Best for many objects of similar size, cell size should be close to the typical object size.
+     */
+    export class SpatialHash<T> implements Index<T> {
+        private _cellSize: number;
+        private _cells: Map<string, number[]> = new Map();
+        private _proxies: Map<number, { item: T, bounds: AABB, cells: string[] }> = new Map();
+        private _nextId: number = 0;
+
+        constructor(cellSize: number) {
+            if (!(cellSize > 0)) throw new Error('Cell size must be greater than 0');
+            this._cellSize = cellSize;
+        }
+
+        /**
+         * Adds item to the index
+         * @param {T} item
+         * @param {Broadphase.AABB} bounds
+         * @returns {number} Id of the item
+         */
+        public insert(item: T, bounds: AABB): number {
+            let id: number = this._nextId++;
+            let cells: string[] = this._getCellKeys(bounds);
+            this._proxies.set(id, {item: item, bounds: bounds, cells: cells});
+            for (let key of cells) this._addToCell(key, id);
+            return id;
+        }
+
+        /**
+         * Updates item's bounding box
+         * @param {number} id Id returned by insert
+         * @param {Broadphase.AABB} bounds
+         */
+        public move(id: number, bounds: AABB): void {
+            let proxy = this._proxies.get(id);
+            if (proxy === undefined) throw new Error('No item with id ' + id);
+            let cells: string[] = this._getCellKeys(bounds);
+            proxy.bounds = bounds;
+            if (cells.join('|') === proxy.cells.join('|')) return;
+            for (let key of proxy.cells) this._removeFromCell(key, id);
+            for (let key of cells) this._addToCell(key, id);
+            proxy.cells = cells;
+        }
+
+        /**
+         * Removes item from the index
+         * @param {number} id Id returned by insert
+         */
+        public remove(id: number): void {
+            let proxy = this._proxies.get(id);
+            if (proxy === undefined) throw new Error('No item with id ' + id);
+            for (let key of proxy.cells) this._removeFromCell(key, id);
+            this._proxies.delete(id);
+        }
+
+        /**
+         * Returns items which bounding boxes overlap given rectangle
+         * @param {Broadphase.AABB} bounds
+         * @returns {T[]}
+         */
+        public queryRect(bounds: AABB): T[] {
+            let toReturn: T[] = [];
+            let visited: Set<number> = new Set();
+            for (let key of this._getCellKeys(bounds)) {
+                let cell: number[] | undefined = this._cells.get(key);
+                if (cell === undefined) continue;
+                for (let id of cell) {
+                    if (visited.has(id)) continue;
+                    visited.add(id);
+                    let proxy = this._proxies.get(id)!;
+                    if (Overlapping(proxy.bounds, bounds)) toReturn.push(proxy.item);
+                }
+            }
+            return toReturn;
+        }
+
+        /**
+         * Returns items which bounding boxes contain given point
+         * @param {Point} point
+         * @returns {T[]}
+         */
+        public queryPoint(point: Point): T[] {
+            return this.queryRect({minX: point.x, minY: point.y, maxX: point.x, maxY: point.y});
+        }
+
+        /**
+         * Returns items which bounding boxes are hit by the ray, sorted by entry distance
+         * @param {Collision2D.Ray} ray Object with 'origin':Point, 'direction':Point and optional 'maxDistance':number property
+         * @returns {T[]}
+         */
+        public raycast(ray: Collision2D.Ray): T[] {
+            //https://www.cse.yorku.ca/~amana/research/grid.pdf
+            let hits: Array<{ item: T, distance: number }> = [];
+            if (this._proxies.size === 0) return [];
+            let length: number = Math.sqrt(ray.direction.x * ray.direction.x + ray.direction.y * ray.direction.y);
+            //Ray without direction hits only items containing its origin
+            if (length === 0) return this.queryPoint(ray.origin);
+            let dx: number = ray.direction.x / length, dy: number = ray.direction.y / length;
+
+            //Infinite rays are limited to the area occupied by items
+            let world: AABB = {minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity};
+            this._proxies.forEach(proxy => {
+                world.minX = Math.min(world.minX, proxy.bounds.minX);
+                world.minY = Math.min(world.minY, proxy.bounds.minY);
+                world.maxX = Math.max(world.maxX, proxy.bounds.maxX);
+                world.maxY = Math.max(world.maxY, proxy.bounds.maxY);
+            });
+            let start: number | null = RaycastAABB(world, ray);
+            if (start === null) return [];
+            let end: number = ray.maxDistance === undefined ? Infinity : ray.maxDistance;
+            if (dx !== 0) end = Math.min(end, Math.max((world.minX - ray.origin.x) / dx, (world.maxX - ray.origin.x) / dx));
+            if (dy !== 0) end = Math.min(end, Math.max((world.minY - ray.origin.y) / dy, (world.maxY - ray.origin.y) / dy));
+
+            let px: number = ray.origin.x + dx * start, py: number = ray.origin.y + dy * start;
+            let cx: number = Math.floor(px / this._cellSize), cy: number = Math.floor(py / this._cellSize);
+            let stepX: number = dx > 0 ? 1 : -1, stepY: number = dy > 0 ? 1 : -1;
+            let tDeltaX: number = dx === 0 ? Infinity : this._cellSize / Math.abs(dx);
+            let tDeltaY: number = dy === 0 ? Infinity : this._cellSize / Math.abs(dy);
+            let tMaxX: number = dx === 0 ? Infinity : start + ((cx + (dx > 0 ? 1 : 0)) * this._cellSize - px) / dx;
+            let tMaxY: number = dy === 0 ? Infinity : start + ((cy + (dy > 0 ? 1 : 0)) * this._cellSize - py) / dy;
+
+            let visited: Set<number> = new Set();
+            let t: number = start;
+            while (t <= end && isFinite(t)) {
+                let cell: number[] | undefined = this._cells.get(cx + ',' + cy);
+                if (cell !== undefined) {
+                    for (let id of cell) {
+                        if (visited.has(id)) continue;
+                        visited.add(id);
+                        let proxy = this._proxies.get(id)!;
+                        let distance: number | null = RaycastAABB(proxy.bounds, ray);
+                        if (distance !== null) hits.push({item: proxy.item, distance: distance});
+                    }
+                }
+                if (tMaxX < tMaxY) {
+                    t = tMaxX;
+                    tMaxX += tDeltaX;
+                    cx += stepX;
+                } else {
+                    t = tMaxY;
+                    tMaxY += tDeltaY;
+                    cy += stepY;
+                }
+            }
+
+            hits.sort((a, b) => a.distance - b.distance);
+            return hits.map(hit => hit.item);
+        }
+
+        /**
+         * Returns all pairs of items which bounding boxes overlap each other
+         * @returns {Array<[T, T]>}
+         */
+        public getPairs(): Array<[T, T]> {
+            let toReturn: Array<[T, T]> = [];
+            let visited: Set<string> = new Set();
+            this._cells.forEach(cell => {
+                for (let i = 0; i < cell.length; i++) {
+                    for (let j = i + 1; j < cell.length; j++) {
+                        let a: number = Math.min(cell[i], cell[j]), b: number = Math.max(cell[i], cell[j]);
+                        let key: string = a + ',' + b;
+                        if (visited.has(key)) continue;
+                        visited.add(key);
+                        let pa = this._proxies.get(a)!, pb = this._proxies.get(b)!;
+                        if (Overlapping(pa.bounds, pb.bounds)) toReturn.push([pa.item, pb.item]);
+                    }
+                }
+            });
+            return toReturn;
+        }
+
+        /**
+         * Returns keys of cells covered by bounding box
+         * @param {Broadphase.AABB} bounds
+         * @returns {string[]}
+         * @private
+         */
+        private _getCellKeys(bounds: AABB): string[] {
+            let toReturn: string[] = [];
+            let minX: number = Math.floor(bounds.minX / this._cellSize), maxX: number = Math.floor(bounds.maxX / this._cellSize);
+            let minY: number = Math.floor(bounds.minY / this._cellSize), maxY: number = Math.floor(bounds.maxY / this._cellSize);
+            for (let x = minX; x <= maxX; x++) {
+                for (let y = minY; y <= maxY; y++) toReturn.push(x + ',' + y);
+            }
+            return toReturn;
+        }
+
+        /**
+         * Adds item id to cell
+         * @private
+         */
+        private _addToCell(key: string, id: number): void {
+            let cell: number[] | undefined = this._cells.get(key);
+            if (cell === undefined) this._cells.set(key, [id]);
+            else cell.push(id);
+        }
+
+        /**
+         * Removes item id from cell, empty cells are deleted
+         * @private
+         */
+        private _removeFromCell(key: string, id: number): void {
+            let cell: number[] | undefined = this._cells.get(key);
+            if (cell === undefined) return;
+            let index: number = cell.indexOf(id);
+            if (index !== -1) cell.splice(index, 1);
+            if (cell.length === 0) this._cells.delete(key);
+        }
+    }
+
+    /**
+     * Interface of AABB tree node
+     */
+    interface TreeNode<T> {
+        bounds: AABB,
+        parent: TreeNode<T> | null,
+        left: TreeNode<T> | null,
+        right: TreeNode<T> | null,
+        height: number,
+        id?: number,
+        item?: T,
+        tight?: AABB
+    }
+
+    /**
+     * Dynamic bounding volume hierarchy.
+     * Leaves store enlarged ("fat") bounding boxes, so small moves don't change the tree.
+     * Best for objects of very different sizes and sparse worlds.
+     */
+    export class AABBTree<T> implements Index<T> {
+        private _margin: number;
+        private _root: TreeNode<T> | null = null;
+        private _leaves: Map<number, TreeNode<T>> = new Map();
+        private _nextId: number = 0;
+
+        /**
+         * @param {number} margin Enlargement of stored bounding boxes
+         */
+        constructor(margin?: number) {
+            this._margin = margin === undefined ? 2 : margin;
+        }
+
+        /**
+         * Adds item to the index
+         * @param {T} item
+         * @param {Broadphase.AABB} bounds
+         * @returns {number} Id of the item
+         */
+        public insert(item: T, bounds: AABB): number {
+            let id: number = this._nextId++;
+            let leaf: TreeNode<T> = {
+                bounds: this._fatten(bounds), parent: null, left: null, right: null, height: 0,
+                id: id, item: item, tight: bounds
+            };
+            this._leaves.set(id, leaf);
+            this._insertLeaf(leaf);
+            return id;
+        }
+
+        /**
+         * Updates item's bounding box. Tree is changed only when bounds leave the enlarged box
+         * @param {number} id Id returned by insert
+         * @param {Broadphase.AABB} bounds
+         */
+        public move(id: number, bounds: AABB): void {
+            let leaf: TreeNode<T> | undefined = this._leaves.get(id);
+            if (leaf === undefined) throw new Error('No item with id ' + id);
+            leaf.tight = bounds;
+            if (_Contains(leaf.bounds, bounds)) return;
+            this._removeLeaf(leaf);
+            leaf.bounds = this._fatten(bounds);
+            this._insertLeaf(leaf);
+        }
+
+        /**
+         * Removes item from the index
+         * @param {number} id Id returned by insert
+         */
+        public remove(id: number): void {
+            let leaf: TreeNode<T> | undefined = this._leaves.get(id);
+            if (leaf === undefined) throw new Error('No item with id ' + id);
+            this._removeLeaf(leaf);
+            this._leaves.delete(id);
+        }
+
+        /**
+         * Returns items which bounding boxes overlap given rectangle
+         * @param {Broadphase.AABB} bounds
+         * @returns {T[]}
+         */
+        public queryRect(bounds: AABB): T[] {
+            let toReturn: T[] = [];
+            this._query(bounds, leaf => toReturn.push(leaf.item as T));
+            return toReturn;
+        }
+
+        /**
+         * Returns items which bounding boxes contain given point
+         * @param {Point} point
+         * @returns {T[]}
+         */
+        public queryPoint(point: Point): T[] {
+            return this.queryRect({minX: point.x, minY: point.y, maxX: point.x, maxY: point.y});
+        }
+
+        /**
+         * Returns items which bounding boxes are hit by the ray, sorted by entry distance
+         * @param {Collision2D.Ray} ray Object with 'origin':Point, 'direction':Point and optional 'maxDistance':number property
+         * @returns {T[]}
+         */
+        public raycast(ray: Collision2D.Ray): T[] {
+            let hits: Array<{ item: T, distance: number }> = [];
+            let stack: Array<TreeNode<T> | null> = [this._root];
+            while (stack.length > 0) {
+                let node: TreeNode<T> | null = stack.pop()!;
+                if (node === null || RaycastAABB(node.bounds, ray) === null) continue;
+                if (node.left === null) {
+                    let distance: number | null = RaycastAABB(node.tight!, ray);
+                    if (distance !== null) hits.push({item: node.item as T, distance: distance});
+                } else stack.push(node.left, node.right);
+            }
+            hits.sort((a, b) => a.distance - b.distance);
+            return hits.map(hit => hit.item);
+        }
+
+        /**
+         * Returns all pairs of items which bounding boxes overlap each other
+         * @returns {Array<[T, T]>}
+         */
+        public getPairs(): Array<[T, T]> {
+            let toReturn: Array<[T, T]> = [];
+            this._leaves.forEach((leaf, id) => {
+                this._query(leaf.tight!, other => {
+                    if (other.id! <= id) return;
+                    toReturn.push([leaf.item as T, other.item as T]);
+                });
+            });
+            return toReturn;
+        }
+
+        /**
+         * Visits every leaf which tight bounds overlap given rectangle
+         * @param {Broadphase.AABB} bounds
+         * @param {(leaf: TreeNode<T>) => void} callback
+         * @private
+         */
+        private _query(bounds: AABB, callback: (leaf: TreeNode<T>) => void): void {
+            let stack: Array<TreeNode<T> | null> = [this._root];
+            while (stack.length > 0) {
+                let node: TreeNode<T> | null = stack.pop()!;
+                if (node === null || !Overlapping(node.bounds, bounds)) continue;
+                if (node.left === null) {
+                    if (Overlapping(node.tight!, bounds)) callback(node);
+                } else stack.push(node.left, node.right);
+            }
+        }
+
+        /**
+         * Enlarges bounding box by margin
+         * @private
+         */
+        private _fatten(bounds: AABB): AABB {
+            return {
+                minX: bounds.minX - this._margin,
+                minY: bounds.minY - this._margin,
+                maxX: bounds.maxX + this._margin,
+                maxY: bounds.maxY + this._margin
+            };
+        }
+
+        /**
+         * Inserts leaf choosing sibling with the smallest perimeter increase
+         * @param {TreeNode<T>} leaf
+         * @private
+         */
+        private _insertLeaf(leaf: TreeNode<T>): void {
+            //https://box2d.org/files/ErinCatto_DynamicBVH_GDC2019.pdf
+            if (this._root === null) {
+                this._root = leaf;
+                leaf.parent = null;
+                return;
+            }
+
+            let sibling: TreeNode<T> = this._root;
+            while (sibling.left !== null && sibling.right !== null) {
+                let combined: number = _Perimeter(_Union(sibling.bounds, leaf.bounds));
+                let cost: number = 2 * combined;
+                let inheritance: number = 2 * (combined - _Perimeter(sibling.bounds));
+                let costLeft: number = this._descendCost(sibling.left, leaf.bounds) + inheritance;
+                let costRight: number = this._descendCost(sibling.right, leaf.bounds) + inheritance;
+                if (cost < costLeft && cost < costRight) break;
+                sibling = costLeft < costRight ? sibling.left : sibling.right;
+            }
+
+            let oldParent: TreeNode<T> | null = sibling.parent;
+            let newParent: TreeNode<T> = {
+                bounds: _Union(sibling.bounds, leaf.bounds), parent: oldParent,
+                left: sibling, right: leaf, height: sibling.height + 1
+            };
+            sibling.parent = newParent;
+            leaf.parent = newParent;
+            if (oldParent === null) this._root = newParent;
+            else if (oldParent.left === sibling) oldParent.left = newParent;
+            else oldParent.right = newParent;
+
+            this._refit(newParent.parent);
+        }
+
+        /**
+         * Calculates cost of descending into node when inserting given bounds
+         * @private
+         */
+        private _descendCost(node: TreeNode<T>, bounds: AABB): number {
+            let perimeter: number = _Perimeter(_Union(node.bounds, bounds));
+            if (node.left === null) return perimeter;
+            return perimeter - _Perimeter(node.bounds);
+        }
+
+        /**
+         * Removes leaf and its parent from the tree
+         * @param {TreeNode<T>} leaf
+         * @private
+         */
+        private _removeLeaf(leaf: TreeNode<T>): void {
+            if (leaf === this._root) {
+                this._root = null;
+                return;
+            }
+            let parent: TreeNode<T> = leaf.parent!;
+            let grandParent: TreeNode<T> | null = parent.parent;
+            let sibling: TreeNode<T> = (parent.left === leaf ? parent.right : parent.left)!;
+
+            if (grandParent === null) {
+                this._root = sibling;
+                sibling.parent = null;
+            } else {
+                if (grandParent.left === parent) grandParent.left = sibling;
+                else grandParent.right = sibling;
+                sibling.parent = grandParent;
+                this._refit(grandParent);
+            }
+            leaf.parent = null;
+        }
+
+        /**
+         * Updates bounds and heights from node up to the root, balancing the tree on the way
+         * @param {TreeNode<T> | null} node
+         * @private
+         */
+        private _refit(node: TreeNode<T> | null): void {
+            while (node !== null) {
+                node = this._balance(node);
+                let left: TreeNode<T> = node.left!, right: TreeNode<T> = node.right!;
+                node.height = 1 + Math.max(left.height, right.height);
+                node.bounds = _Union(left.bounds, right.bounds);
+                node = node.parent;
+            }
+        }
+
+        /**
+         * Performs left or right rotation if node is imbalanced
+         * @param {TreeNode<T>} a
+         * @returns {TreeNode<T>} New root of the subtree
+         * @private
+         */
+        private _balance(a: TreeNode<T>): TreeNode<T> {
+            if (a.left === null || a.height < 2) return a;
+            let b: TreeNode<T> = a.left, c: TreeNode<T> = a.right!;
+            let balance: number = c.height - b.height;
+            if (balance > 1) return this._rotate(a, c, 'right');
+            if (balance < -1) return this._rotate(a, b, 'left');
+            return a;
+        }
+
+        /**
+         * Promotes child of node a (placed on given side) one level up
+         * @private
+         */
+        private _rotate(a: TreeNode<T>, up: TreeNode<T>, side: 'left' | 'right'): TreeNode<T> {
+            let other: 'left' | 'right' = side === 'left' ? 'right' : 'left';
+            let f: TreeNode<T> = up.left!, g: TreeNode<T> = up.right!;
+
+            up.left = a;
+            up.parent = a.parent;
+            a.parent = up;
+            if (up.parent === null) this._root = up;
+            else if (up.parent.left === a) up.parent.left = up;
+            else up.parent.right = up;
+
+            //Taller grandchild stays with the promoted node
+            let keep: TreeNode<T> = f.height > g.height ? f : g;
+            let give: TreeNode<T> = keep === f ? g : f;
+            up.right = keep;
+            a[side] = give;
+            give.parent = a;
+            a.bounds = _Union(a[other]!.bounds, give.bounds);
+            a.height = 1 + Math.max(a[other]!.height, give.height);
+            up.bounds = _Union(a.bounds, keep.bounds);
+            up.height = 1 + Math.max(a.height, keep.height);
+            return up;
+        }
+    }
+
+    /**
+     * Compares brute force pair checking with both indexes using moving circles.
+     * Each method reports candidate pairs which are then confirmed with Collision2D.CirclesOverlapping
+     * @param {number} count Number of circles
+     * @param {number} frames Number of simulated frames
+     * @param {number} size World size
+     * @returns {{bruteForce: number, spatialHash: number, aabbTree: number}} Total time in milliseconds
+     */
+    export function Benchmark(count: number, frames: number, size?: number): { bruteForce: number, spatialHash: number, aabbTree: number } {
+        let worldSize: number = size === undefined ? 2000 : size;
+        let circles: Array<{ center: Point, radius: number, velocity: Point }> = [];
+        for (let i = 0; i < count; i++) circles.push({
+            center: {x: Math.randomFloat(0, worldSize), y: Math.randomFloat(0, worldSize)},
+            radius: Math.randomFloat(5, 15),
+            velocity: {x: Math.randomFloat(-2, 2), y: Math.randomFloat(-2, 2)}
+        });
+        const step = (): void => {
+            for (let c of circles) {
+                c.center.x = (c.center.x + c.velocity.x + worldSize) % worldSize;
+                c.center.y = (c.center.y + c.velocity.y + worldSize) % worldSize;
+            }
+        };
+        const run = (index: Index<number> | null): number => {
+            let ids: number[] = [];
+            if (index !== null) for (let i = 0; i < count; i++) ids.push(index.insert(i, FromCircle(circles[i])));
+            let start: number = performance.now();
+            for (let frame = 0; frame < frames; frame++) {
+                step();
+                if (index === null) {
+                    for (let i = 0; i < count; i++)
+                        for (let j = i + 1; j < count; j++) Collision2D.CirclesOverlapping(circles[i], circles[j]);
+                } else {
+                    for (let i = 0; i < count; i++) index.move(ids[i], FromCircle(circles[i]));
+                    for (let [i, j] of index.getPairs()) Collision2D.CirclesOverlapping(circles[i], circles[j]);
+                }
+            }
+            return performance.now() - start;
+        };
+        return {
+            bruteForce: run(null),
+            spatialHash: run(new SpatialHash<number>(32)),
+            aabbTree: run(new AABBTree<number>())
+        };
+    }
+
+    /**
+     * Calculates bounding box containing both boxes
+     * @private
+     */
+    function _Union(a: AABB, b: AABB): AABB {
+        return {
+            minX: Math.min(a.minX, b.minX),
+            minY: Math.min(a.minY, b.minY),
+            maxX: Math.max(a.maxX, b.maxX),
+            maxY: Math.max(a.maxY, b.maxY)
+        };
+    }
+
+    /**
+     * Checks if outer box fully contains inner box
+     * @private
+     */
+    function _Contains(outer: AABB, inner: AABB): boolean {
+        return outer.minX <= inner.minX && outer.minY <= inner.minY && outer.maxX >= inner.maxX && outer.maxY >= inner.maxY;
+    }
+
+    /**
+     * Calculates perimeter of bounding box (surface area heuristic in 2D)
+     * @private
+     */
+    function _Perimeter(bounds: AABB): number {
+        return 2 * ((bounds.maxX - bounds.minX) + (bounds.maxY - bounds.minY));
+    }
+}
@@ -0,0 +1,214 @@
+/**
+ * Camera looking at the world drawn on canvas.
+ * 'position' is world point shown in the center of canvas, 'zoom' is number of canvas units per world unit
+ * and 'rotation' is camera rotation in radians (world appears rotated the opposite way).
+ * Screen coordinates are canvas drawing coordinates, the same as Canvas.getMousePosition and Input return.
+ */
+class Camera {
+    public position: Vector2;
+    public zoom: number;
+    public rotation: number;
+    public minZoom: number;
+    public maxZoom: number;
+    public bounds: Broadphase.AABB | null;
+    public shakeRandom: Random;
+    private _canvas: Canvas;
+    private _target: { x: number, y: number } | null;
+    private _stiffness: number;
+    private _shakeIntensity: number;
+    private _shakeDuration: number;
+    private _shakeTime: number;
+    private _shakeOffset: Vector2;
+
+    constructor(canvas: Canvas, position?: Vector2, zoom?: number) {
+        this.position = position || new Vector2(canvas.width / 2, canvas.height / 2);
+        this.zoom = zoom || 1;
+        this.rotation = 0;
+        this.minZoom = 0.01;
+        this.maxZoom = 100;
+        this.bounds = null;
+        this.shakeRandom = new Random();
+        this._canvas = canvas;
+        this._target = null;
+        this._stiffness = 5;
+        this._shakeIntensity = 0;
+        this._shakeDuration = 0;
+        this._shakeTime = 0;
+        this._shakeOffset = new Vector2();
+        return this;
+    }
+
+    /**
+     * Moves camera by given distance in world units
+     * @param {number} dx
+     * @param {number} dy
+     */
+    public pan(dx: number, dy: number): Camera {
+        this.position.x += dx;
+        this.position.y += dy;
+        this._clamp();
+        return this;
+    }
+
+    /**
+     * Multiplies zoom keeping given screen point above the same world point (e.g. zooming at pointer)
+     * @param {number} factor
+     * @param {Vector2} screenPoint Canvas center when omitted
+     */
+    public zoomBy(factor: number, screenPoint?: Vector2): Camera {
+        let anchor: Vector2 | null = screenPoint === undefined ? null : this.screenToWorld(screenPoint);
+        this.zoom = Math.clamp(this.zoom * factor, this.minZoom, this.maxZoom);
+        if (anchor !== null) {
+            let moved: Vector2 = this.screenToWorld(<Vector2>screenPoint);
+            this.position.add(Vector2.Subtract(anchor, moved));
+        }
+        this._clamp();
+        return this;
+    }
+
+    /**
+     * Starts following target, position approaches target exponentially
+     * @param {{x: number, y: number} | null} target Followed point (e.g. Vector2 of player), null stops following
+     * @param {number} stiffness Rate of approach per second, higher is faster (default 5, Infinity snaps)
+     */
+    public follow(target: { x: number, y: number } | null, stiffness?: number): Camera {
+        this._target = target;
+        if (stiffness !== undefined) this._stiffness = stiffness;
+        return this;
+    }
+
+    /**
+     * Starts screen shake fading out over its duration
+     * @param {number} intensity Maximum offset in world units
+     * @param {number} duration Duration in milliseconds
+     */
+    public shake(intensity: number, duration: number): Camera {
+        this._shakeIntensity = Math.max(this._shakeIntensity * (1 - this._shakeProgress()), intensity);
+        this._shakeDuration = duration;
+        this._shakeTime = 0;
+        return this;
+    }
+
+    /**
+     * Advances follow and shake, call once per frame (or fixed update)
+     * @param {number} delta Time in milliseconds
+     */
+    public update(delta: number): Camera {
+        if (this._target !== null) {
+            //Frame-rate independent smoothing
+            let t: number = this._stiffness === Infinity ? 1 : 1 - Math.exp(-this._stiffness * delta / 1000);
+            this.position.x += (this._target.x - this.position.x) * t;
+            this.position.y += (this._target.y - this.position.y) * t;
+        }
+
+        this._shakeTime += delta;
+        let strength: number = this._shakeIntensity * (1 - this._shakeProgress());
+        if (strength > 0) {
+            this._shakeOffset.x = this.shakeRandom.float(-1, 1) * strength;
+            this._shakeOffset.y = this.shakeRandom.float(-1, 1) * strength;
+        } else {
+            this._shakeIntensity = 0;
+            this._shakeOffset.x = this._shakeOffset.y = 0;
+        }
+        this._clamp();
+        return this;
+    }
+
+    /**
+     * Returns transformation from world to screen coordinates
+     * @returns {Transform2D}
+     */
+    public getTransform(): Transform2D {
+        return new Transform2D()
+            .translate(this._canvas.width / 2, this._canvas.height / 2)
+            .rotate(-this.rotation)
+            .scale(this.zoom)
+            .translate(-this.position.x - this._shakeOffset.x, -this.position.y - this._shakeOffset.y);
+    }
+
+    /**
+     * Converts world point to screen point
+     * @param {Vector2} point
+     * @returns {Vector2}
+     */
+    public worldToScreen(point: Vector2): Vector2 {
+        return Transform2D.TransformVector2(this.getTransform(), point);
+    }
+
+    /**
+     * Converts screen point (e.g. pointer position) to world point
+     * @param {Vector2} point
+     * @returns {Vector2}
+     */
+    public screenToWorld(point: Vector2): Vector2 {
+        return Transform2D.TransformVector2(this.getTransform().invert(), point);
+    }
+
+    /**
+     * Converts world rectangle to screen, result bounds rotated rectangle
+     * @param {Broadphase.AABB} rect
+     * @returns {Broadphase.AABB}
+     */
+    public worldToScreenRect(rect: Broadphase.AABB): Broadphase.AABB {
+        return Camera._TransformRect(this.getTransform(), rect);
+    }
+
+    /**
+     * Converts screen rectangle to world, result bounds rotated rectangle
+     * @param {Broadphase.AABB} rect
+     * @returns {Broadphase.AABB}
+     */
+    public screenToWorldRect(rect: Broadphase.AABB): Broadphase.AABB {
+        return Camera._TransformRect(this.getTransform().invert(), rect);
+    }
+
+    /**
+     * Returns world rectangle containing everything visible on canvas, usable for culling (e.g. Broadphase queryRect)
+     * @returns {Broadphase.AABB}
+     */
+    public getVisibleRect(): Broadphase.AABB {
+        return this.screenToWorldRect({minX: 0, minY: 0, maxX: this._canvas.width, maxY: this._canvas.height});
+    }
+
+    /**
+     * Multiplies context transformation by camera transformation, wrap drawing with ctx.save() and ctx.restore()
+     * @param {CanvasRenderingContext2D} ctx Context of camera's canvas when omitted
+     */
+    public apply(ctx?: CanvasRenderingContext2D): Camera {
+        this.getTransform().transform(ctx || this._canvas.getContext());
+        return this;
+    }
+
+    /**
+     * Returns progress of current shake (1 when finished)
+     * @private
+     */
+    private _shakeProgress(): number {
+        return this._shakeDuration > 0 ? Math.min(1, this._shakeTime / this._shakeDuration) : 1;
+    }
+
+    /**
+     * Keeps visible area inside bounds, area larger than bounds is centered
+     * @private
+     */
+    private _clamp(): void {
+        if (this.bounds === null) return;
+        let visible: Broadphase.AABB = this.getVisibleRect();
+        let halfWidth: number = (visible.maxX - visible.minX) / 2, halfHeight: number = (visible.maxY - visible.minY) / 2;
+        const clampAxis = (value: number, min: number, max: number, half: number): number =>
+            max - min <= 2 * half ? (min + max) / 2 : Math.clamp(value, min + half, max - half);
+        this.position.x = clampAxis(this.position.x, this.bounds.minX, this.bounds.maxX, halfWidth);
+        this.position.y = clampAxis(this.position.y, this.bounds.minY, this.bounds.maxY, halfHeight);
+    }
+
+    /**
+     * Transforms rectangle corners and returns their bounding box
+     * @private
+     */
+    private static _TransformRect(m: Transform2D, rect: Broadphase.AABB): Broadphase.AABB {
+        return Polygon.GetBounds(Transform2D.TransformPoints(m, [
+            {x: rect.minX, y: rect.minY}, {x: rect.maxX, y: rect.minY},
+            {x: rect.maxX, y: rect.maxY}, {x: rect.minX, y: rect.maxY}
+        ]));
+    }
+}
@@ -1,14 +1,76 @@
+/**
+ * Options of canvas
+ * 'pixelRatio' is number of backing store pixels per CSS pixel ('auto' follows window.devicePixelRatio, default 1).
+ * 'resize' mode: 'fixed' keeps given size (default), 'fit' fills parent element and 'letterbox' scales canvas
+ * of given size to fit parent keeping aspect ratio (drawing coordinates stay the same).
+ * 'element' replaces created canvas element, e.g. with a stub in tests.
+ */
+interface CanvasOptions {
+    pixelRatio?: number | 'auto',
+    resize?: 'fixed' | 'fit' | 'letterbox',
+    element?: HTMLCanvasElement
+}
+
 class Canvas {
     public DOMElement: HTMLCanvasElement;
+    public width: number;
+    public height: number;
+    public pixelRatio: number;
     private _ctx: CanvasRenderingContext2D;
-    private _intervalId: number;
+    private _loop: GameLoop | null;
+    private _options: CanvasOptions;
+    private _displayWidth: number;
+    private _displayHeight: number;
+    private _resizeListeners: Array<(width: number, height: number, pixelRatio: number) => void>;
+    private _observer: ResizeObserver | null;
+    private _onWindowResize: () => void;
 
-    constructor(width: number, height: number) {
+    constructor(width: number, height: number, options?: CanvasOptions) {
         //Canvas initialization
-        this.DOMElement = document.createElement('canvas');
-        this.DOMElement.width = width;
-        this.DOMElement.height = height;
+        this._options = options || {};
+        this.DOMElement = this._options.element || document.createElement('canvas');
         this._ctx = this.DOMElement.getContext('2d') || new CanvasRenderingContext2D();
+        this._loop = null;
+        this._resizeListeners = [];
+        this._observer = null;
+        this._onWindowResize = () => this.resize();
+        this.width = width;
+        this.height = height;
+        this._displayWidth = width;
+        this._displayHeight = height;
+        this.pixelRatio = this._readPixelRatio();
+        this._applySize();
+    }
+
+    /**
+     * Maps client (viewport) coordinates to canvas drawing coordinates.
+     * Border and padding are excluded and CSS scaling of content box is reverted
+     * @param {{x: number, y: number}} client Point in client coordinates (e.g. clientX and clientY of event)
+     * @param {{left: number, top: number, width: number, height: number}} rect Bounding client rect of element
+     * @param {Partial<CSSStyleDeclaration>} style Computed style of element (border and padding widths)
+     * @param {number} width Drawing width of canvas
+     * @param {number} height Drawing height of canvas
+     * @returns {{x: number, y: number}}
+     */
+    public static ClientToCanvas(client: { x: number, y: number }, rect: { left: number, top: number, width: number, height: number },
+                                 style: Partial<CSSStyleDeclaration>, width: number, height: number): { x: number, y: number } {
+        const px = (value: string | undefined): number => parseFloat(value || '') || 0;
+        let left: number = px(style.borderLeftWidth) + px(style.paddingLeft);
+        let top: number = px(style.borderTopWidth) + px(style.paddingTop);
+        let contentWidth: number = rect.width - left - px(style.borderRightWidth) - px(style.paddingRight);
+        let contentHeight: number = rect.height - top - px(style.borderBottomWidth) - px(style.paddingBottom);
+        return {
+            x: (client.x - rect.left - left) * (contentWidth > 0 ? width / contentWidth : 1),
+            y: (client.y - rect.top - top) * (contentHeight > 0 ? height / contentHeight : 1)
+        };
+    }
+
+    /**
+     * Returns rendering context, it is scaled so drawing uses canvas width and height
+     * @returns {CanvasRenderingContext2D}
+     */
+    public getContext(): CanvasRenderingContext2D {
+        return this._ctx;
     }
 
     /**
@@ -18,37 +80,178 @@ class Canvas {
      */
     public getMousePosition(evt: MouseEvent) {
         let rect = this.DOMElement.getBoundingClientRect();
-        return {
-            x: evt.clientX - rect.left,
-            y: evt.clientY - rect.top
-        };
+        let style: Partial<CSSStyleDeclaration> = typeof getComputedStyle === 'function' ? getComputedStyle(this.DOMElement) : {};
+        return Canvas.ClientToCanvas({x: evt.clientX, y: evt.clientY}, rect, style, this.width, this.height);
     }
 
     /**
-     * Appends canvas to html element
+     * Appends canvas to html element, 'fit' and 'letterbox' canvases start tracking its size
      * @param {HTMLElement} parent
      */
     public appendTo(parent: HTMLElement): void {
         if (!(parent instanceof HTMLElement)) throw new Error('Append to expects HTMLElement as parameter');
         parent.appendChild(this.DOMElement);
+        this._track(parent);
+        this.resize();
     }
 
     /**
-     * Sets the animation loop
-     * @param {(ctx: CanvasRenderingContext2D) => void} loop
-     * @param {number} fps Frames per seconds
+     * Sets drawing size of canvas
+     * @param {number} width
+     * @param {number} height
      */
-    public setAnimationLoop(loop: (ctx: CanvasRenderingContext2D) => void, fps: number): void {
-        if (this._intervalId) throw new Error('Unable to set more than 1 animation loop for one canvas');
-        this._intervalId = setInterval(() => loop(this._ctx), 1000 / fps);
+    public setSize(width: number, height: number): Canvas {
+        this.width = width;
+        this.height = height;
+        return this.resize();
     }
 
     /**
-     * Stops animation loop
+     * Sets pixel ratio of backing store
+     * @param {number | 'auto'} pixelRatio
+     */
+    public setPixelRatio(pixelRatio: number | 'auto'): Canvas {
+        this._options.pixelRatio = pixelRatio;
+        return this.resize();
+    }
+
+    /**
+     * Recalculates size from resize mode, parent size and pixel ratio.
+     * Called automatically when tracked parent or window is resized
+     */
+    public resize(): Canvas {
+        let parent: HTMLElement | null = this.DOMElement.parentElement;
+        let mode: string = this._options.resize || 'fixed';
+        let displayWidth: number = this.width, displayHeight: number = this.height;
+        if (parent !== null && mode !== 'fixed') {
+            let available = this._contentSize(parent);
+            if (mode === 'fit') {
+                this.width = displayWidth = available.width;
+                this.height = displayHeight = available.height;
+            } else {
+                let scale: number = Math.min(available.width / this.width, available.height / this.height);
+                displayWidth = this.width * scale;
+                displayHeight = this.height * scale;
+                //Remaining space is split evenly on both sides
+                this.DOMElement.style.marginLeft = `${(available.width - displayWidth) / 2}px`;
+                this.DOMElement.style.marginTop = `${(available.height - displayHeight) / 2}px`;
+            }
+        }
+
+        let pixelRatio: number = this._readPixelRatio();
+        let changed: boolean = displayWidth !== this._displayWidth || displayHeight !== this._displayHeight || pixelRatio !== this.pixelRatio;
+        this._displayWidth = displayWidth;
+        this._displayHeight = displayHeight;
+        this.pixelRatio = pixelRatio;
+        this._applySize();
+        if (changed) for (let listener of this._resizeListeners.slice()) listener(this.width, this.height, this.pixelRatio);
+        return this;
+    }
+
+    /**
+     * Adds callback called after canvas size or pixel ratio changes
+     * @param {(width: number, height: number, pixelRatio: number) => void} callback
+     */
+    public onResize(callback: (width: number, height: number, pixelRatio: number) => void): Canvas {
+        this._resizeListeners.push(callback);
+        return this;
+    }
+
+    /**
+     * Removes resize callback
+     * @param {(width: number, height: number, pixelRatio: number) => void} callback
+     */
+    public offResize(callback: (width: number, height: number, pixelRatio: number) => void): Canvas {
+        this._resizeListeners = this._resizeListeners.filter(listener => listener !== callback);
+        return this;
+    }
+
+    /**
+     * Stops tracking size of parent and window
+     */
+    public dispose(): void {
+        if (this._observer !== null) this._observer.disconnect();
+        this._observer = null;
+        if (typeof window !== 'undefined') window.removeEventListener('resize', this._onWindowResize);
+    }
+
+    /**
+     * Adds callback to the animation loop, loop is created and started with the first callback.
+     * Without fps callback is rendered once per display frame, with fps it's called as fixed-timestep update fps times per second.
+     * Returned GameLoop accepts fixed-timestep update systems, pausing and time scaling
+     * @param {(ctx: CanvasRenderingContext2D, info: FrameInfo) => void} loop
+     * @param {number} fps Updates per second, must match fps of already created loop (default 60)
+     * @returns {GameLoop}
+     */
+    public setAnimationLoop(loop: (ctx: CanvasRenderingContext2D, info: FrameInfo) => void, fps?: number): GameLoop {
+        if (this._loop === null) this._loop = new GameLoop({fixedStep: fps ? 1000 / fps : undefined}).start();
+        else if (fps && this._loop.fixedStep !== 1000 / fps) throw new Error(`Animation loop already runs at ${Math.round(1000 / this._loop.fixedStep)} fps`);
+        if (fps) this._loop.addUpdate(info => loop(this._ctx, info));
+        else this._loop.addRender(info => loop(this._ctx, info));
+        return this._loop;
+    }
+
+    /**
+     * Stops animation loop and removes its callbacks
      */
     public clearAnimationLoop(): void {
-        if (!this._intervalId) throw new Error('No loop to stop');
-        clearInterval(this._intervalId);
-        this._intervalId = 0;
+        if (this._loop === null) throw new Error('No loop to stop');
+        this._loop.stop();
+        this._loop = null;
+    }
+
+    /**
+     * Sizes backing store and CSS box, context is scaled from drawing size to backing store
+     * @private
+     */
+    private _applySize(): void {
+        let backingWidth: number = Math.max(1, Math.round(this._displayWidth * this.pixelRatio));
+        let backingHeight: number = Math.max(1, Math.round(this._displayHeight * this.pixelRatio));
+        //Setting size clears canvas, so it's done only when needed
+        if (this.DOMElement.width !== backingWidth) this.DOMElement.width = backingWidth;
+        if (this.DOMElement.height !== backingHeight) this.DOMElement.height = backingHeight;
+        this.DOMElement.style.width = `${this._displayWidth}px`;
+        this.DOMElement.style.height = `${this._displayHeight}px`;
+        this._ctx.setTransform(backingWidth / (this.width || 1), 0, 0, backingHeight / (this.height || 1), 0, 0);
+    }
+
+    /**
+     * Reads pixel ratio from options
+     * @private
+     */
+    private _readPixelRatio(): number {
+        let ratio = this._options.pixelRatio;
+        if (ratio === 'auto') return typeof window !== 'undefined' && window.devicePixelRatio || 1;
+        return ratio || 1;
+    }
+
+    /**
+     * Calculates size of parent's content box
+     * @private
+     */
+    private _contentSize(parent: HTMLElement): { width: number, height: number } {
+        let style: Partial<CSSStyleDeclaration> = typeof getComputedStyle === 'function' ? getComputedStyle(parent) : {};
+        const px = (value: string | undefined): number => parseFloat(value || '') || 0;
+        return {
+            width: Math.max(0, parent.clientWidth - px(style.paddingLeft) - px(style.paddingRight)),
+            height: Math.max(0, parent.clientHeight - px(style.paddingTop) - px(style.paddingBottom))
+        };
+    }
+
+    /**
+     * Starts tracking size of parent (and window for pixel ratio changes)
+     * @private
+     */
+    private _track(parent: HTMLElement): void {
+        this.dispose();
+        if ((this._options.resize || 'fixed') !== 'fixed') {
+            //Inline canvas leaves space for text descenders below it, so the parent would grow with every resize
+            this.DOMElement.style.display = 'block';
+            if (typeof ResizeObserver !== 'undefined') {
+                this._observer = new ResizeObserver(() => this.resize());
+                this._observer.observe(parent);
+            }
+        }
+        if (typeof window !== 'undefined') window.addEventListener('resize', this._onWindowResize);
     }
-}
\ No newline at end of file
+}
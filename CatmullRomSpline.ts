@@ -0,0 +1,52 @@
+/// <reference path="BezierPath.ts" />
+
+/**
+ * Cardinal (Catmull-Rom) spline passing through all given points.
+ * Tension 0.5 gives classic Catmull-Rom spline, 0 gives straight lines.
+ * Control points are converted into cubic Bezier segments, call update after changing them.
+ */
+class CatmullRomSpline extends BezierPath {
+    public points: Vector2[];
+    public closed: boolean;
+    public tension: number;
+
+    constructor(points: Vector2[], closed?: boolean, tension?: number) {
+        super();
+        this.points = points;
+        this.closed = closed || false;
+        this.tension = tension === undefined ? 0.5 : tension;
+        this.update();
+        return this;
+    }
+
+    /**
+     * Rebuilds Bezier segments from points
+     */
+    public update(): CatmullRomSpline {
+        //https://en.wikipedia.org/wiki/Cubic_Hermite_spline#Cardinal_spline
+        let n: number = this.points.length;
+        if (n < 2) throw new Error('Catmull-Rom spline needs at least 2 points');
+        const at = (i: number): Vector2 => {
+            if (this.closed) return this.points[(i + n) % n];
+            //Missing neighbours of end points are mirrored
+            if (i < 0) return Vector2.Subtract(Vector2.MultiplyScalar(this.points[0], 2), this.points[1]);
+            if (i >= n) return Vector2.Subtract(Vector2.MultiplyScalar(this.points[n - 1], 2), this.points[n - 2]);
+            return this.points[i];
+        };
+
+        this.segments = [];
+        for (let i = 0; i < (this.closed ? n : n - 1); i++) {
+            let p0: Vector2 = at(i - 1), p1: Vector2 = at(i), p2: Vector2 = at(i + 1), p3: Vector2 = at(i + 2);
+            //Tangent at point is tension * (next - previous), Bezier handle is third of it
+            let handle: number = this.tension / 3;
+            this.segments.push(new CubicBezier(
+                p1.clone(),
+                Vector2.Add(p1, Vector2.MultiplyScalar(Vector2.Subtract(p2, p0), handle)),
+                Vector2.Subtract(p2, Vector2.MultiplyScalar(Vector2.Subtract(p3, p1), handle)),
+                p2.clone()
+            ));
+        }
+        this.updateArcLengths();
+        return this;
+    }
+}
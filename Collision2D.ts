@@ -28,6 +28,67 @@ namespace Collision2D {
         [propName: string]: any;
     }
 
+    /**
+     * Interface of collision manifold
+     * 'normal' is an unit vector pointing from the first shape to the second one,
+     * translating the second shape by 'mtv' (minimum translation vector) separates the shapes
+     */
+    export interface Manifold {
+        normal: Point,
+        depth: number,
+        mtv: Point,
+        contacts: Point[]
+    }
+
+    /**
+     * Interface of Ray
+     * Direction does not have to be normalized, ray with zero direction hits nothing, 'maxDistance' defaults to Infinity
+     */
+    export interface Ray {
+        origin: Point,
+        direction: Point,
+        maxDistance?: number
+    }
+
+    /**
+     * Interface of raycast hit
+     * 'normal' is an unit vector of hit surface facing the ray, 'edgeIndex' is -1 for circles
+     * and 'shapeIndex' is set only by queries against array of shapes
+     */
+    export interface RaycastHit {
+        distance: number,
+        point: Point,
+        normal: Point,
+        edgeIndex: number,
+        shapeIndex?: number
+    }
+
+    /**
+     * Interface of time of impact
+     * 'time' is a fraction of the step in range [0, 1], 'point' and 'normal' describe the first contact,
+     * normal is an unit vector pointing from the first (moving) shape to the second one
+     */
+    export interface TimeOfImpact {
+        time: number,
+        point: Point,
+        normal: Point
+    }
+
+    /**
+     * Interface of distance query result
+     * 'point1' and 'point2' are the closest (witness) points of the first and the second shape
+     */
+    export interface DistanceResult {
+        distance: number,
+        point1: Point,
+        point2: Point
+    }
+
+    /**
+     * Support function of convex shape, returns the farthest point of shape in given direction
+     */
+    export type SupportFunction = (direction: Point) => Point;
+
     /**
      * Checks if a point lies on a line segment (between 2 other points)
      * @param {Collision2D.Point} point Object with 'x' and 'y' property
@@ -63,7 +124,7 @@ namespace Collision2D {
      */
     export function PointInsideCircle(point: Point, circle: Circle): boolean {
         let p1: Point = point, p2: Point = circle.center;
-        let dist = Math.sqrt((p1.x - p2.x) * (p1.x - p2.x) + (p1.y - p2.y) * p1.y - p2.y);
+        let dist = Math.sqrt((p1.x - p2.x) * (p1.x - p2.x) + (p1.y - p2.y) * (p1.y - p2.y));
         return (dist < circle.radius);
     }
 
@@ -294,7 +355,7 @@ namespace Collision2D {
      */
     export function CirclesOverlapping(circle1: Circle, circle2: Circle): boolean {
         let p1: Point = circle1.center, p2 = circle2.center;
-        let dist: number = Math.sqrt((p1.x - p2.x) * (p1.x - p2.x) + (p1.y - p2.y) * p1.y - p2.y);
+        let dist: number = Math.sqrt((p1.x - p2.x) * (p1.x - p2.x) + (p1.y - p2.y) * (p1.y - p2.y));
         let r_sum: number = circle1.radius + circle2.radius;
         return dist < r_sum;
     }
@@ -333,4 +394,906 @@ namespace Collision2D {
         if (PointInsideCircle(polygon[0], circle)) return true;
         return PointInsidePolygon(circle.center, polygon);
     }
+
+    /**
+     * Calculates collision manifold of two convex polygons using Separating Axis Theorem.
+     * Works with both clockwise and counter-clockwise ordered vertices
+     * @param {Collision2D.Point[]} polygon1 Array of points (convex)
+     * @param {Collision2D.Point[]} polygon2 Array of points (convex)
+     * @returns {Collision2D.Manifold | null} Collision manifold or null when polygons are separated
+     */
+    export function PolygonsCollision(polygon1: Point[], polygon2: Point[]): Manifold | null {
+        //http://www.dyn4j.org/2011/11/contact-points-using-clipping/
+        let sep1 = _MaxSeparation(polygon1, polygon2);
+        if (sep1.separation > 0) return null;
+        let sep2 = _MaxSeparation(polygon2, polygon1);
+        if (sep2.separation > 0) return null;
+
+        //Reference face belongs to the polygon with the smallest penetration, bias keeps the choice stable
+        let flip: boolean = sep2.separation > sep1.separation + 1e-9;
+        let ref: Point[] = flip ? polygon2 : polygon1;
+        let inc: Point[] = flip ? polygon1 : polygon2;
+        let refIndex: number = flip ? sep2.index : sep1.index;
+        let depth: number = -(flip ? sep2.separation : sep1.separation);
+
+        let refNormal: Point = _EdgeNormal(ref, refIndex);
+        let v1: Point = ref[refIndex], v2: Point = ref[(refIndex + 1) % ref.length];
+
+        //Incident edge is the one most anti-parallel to the reference normal
+        let incIndex = 0, minDot = Infinity;
+        for (let i = 0; i < inc.length; i++) {
+            let d: number = _Dot(_EdgeNormal(inc, i), refNormal);
+            if (d < minDot) {
+                minDot = d;
+                incIndex = i;
+            }
+        }
+        let incEdge: Point[] = [inc[incIndex], inc[(incIndex + 1) % inc.length]];
+
+        //Clip incident edge against side planes of the reference edge
+        let tangent: Point = _Normalize({x: v2.x - v1.x, y: v2.y - v1.y});
+        let clipped: Point[] = _ClipSegment(incEdge, tangent, _Dot(tangent, v1));
+        clipped = _ClipSegment(clipped, {x: -tangent.x, y: -tangent.y}, -_Dot(tangent, v2));
+
+        //Keep only points lying below the reference face
+        let contacts: Point[] = [];
+        for (let p of clipped) {
+            if (_Dot(refNormal, {x: p.x - v1.x, y: p.y - v1.y}) <= 1e-9) contacts.push({x: p.x, y: p.y});
+        }
+        if (contacts.length === 0) {
+            let deepest: Point = inc[0];
+            for (let p of inc) if (_Dot(refNormal, p) < _Dot(refNormal, deepest)) deepest = p;
+            contacts.push({x: deepest.x, y: deepest.y});
+        }
+
+        let normal: Point = flip ? {x: -refNormal.x, y: -refNormal.y} : refNormal;
+        return _CreateManifold(normal, depth, contacts);
+    }
+
+    /**
+     * Calculates collision manifold of circle and convex polygon using Separating Axis Theorem.
+     * @param {Collision2D.Circle} circle Object with 'center':Point and 'radius':number property
+     * @param {Collision2D.Point[]} polygon Array of points (convex)
+     * @returns {Collision2D.Manifold | null} Collision manifold or null when shapes are separated
+     */
+    export function CirclePolygonCollision(circle: Circle, polygon: Point[]): Manifold | null {
+        let c: Point = circle.center, r: number = circle.radius;
+
+        //Find the edge with maximum separation from the circle center
+        let index = 0, separation = -Infinity;
+        for (let i = 0; i < polygon.length; i++) {
+            let n: Point = _EdgeNormal(polygon, i);
+            let s: number = _Dot(n, {x: c.x - polygon[i].x, y: c.y - polygon[i].y});
+            if (s > r) return null;
+            if (s > separation) {
+                separation = s;
+                index = i;
+            }
+        }
+
+        let v1: Point = polygon[index], v2: Point = polygon[(index + 1) % polygon.length];
+        let faceNormal: Point = _EdgeNormal(polygon, index);
+
+        //Center inside polygon
+        if (separation <= 0) {
+            let contact: Point = {x: c.x - faceNormal.x * separation, y: c.y - faceNormal.y * separation};
+            return _CreateManifold({x: -faceNormal.x, y: -faceNormal.y}, r - separation, [contact]);
+        }
+
+        //Center outside polygon, check vertex regions of the edge
+        let u1: number = _Dot({x: c.x - v1.x, y: c.y - v1.y}, {x: v2.x - v1.x, y: v2.y - v1.y});
+        let u2: number = _Dot({x: c.x - v2.x, y: c.y - v2.y}, {x: v1.x - v2.x, y: v1.y - v2.y});
+        let closest: Point;
+        if (u1 <= 0) closest = v1;
+        else if (u2 <= 0) closest = v2;
+        else {
+            let contact: Point = {x: c.x - faceNormal.x * separation, y: c.y - faceNormal.y * separation};
+            return _CreateManifold({x: -faceNormal.x, y: -faceNormal.y}, r - separation, [contact]);
+        }
+
+        let dx: number = closest.x - c.x, dy: number = closest.y - c.y;
+        let dist: number = Math.sqrt(dx * dx + dy * dy);
+        if (dist > r) return null;
+        let normal: Point = dist === 0 ? {x: -faceNormal.x, y: -faceNormal.y} : {x: dx / dist, y: dy / dist};
+        return _CreateManifold(normal, r - dist, [{x: closest.x, y: closest.y}]);
+    }
+
+    /**
+     * Calculates collision manifold of two circles.
+     * Contact point lies in the middle of the overlapping region
+     * @param {Collision2D.Circle} circle1 Object with 'center':Point and 'radius':number property
+     * @param {Collision2D.Circle} circle2 Object with 'center':Point and 'radius':number property
+     * @returns {Collision2D.Manifold | null} Collision manifold or null when circles are separated
+     */
+    export function CirclesCollision(circle1: Circle, circle2: Circle): Manifold | null {
+        let dx: number = circle2.center.x - circle1.center.x;
+        let dy: number = circle2.center.y - circle1.center.y;
+        let dist: number = Math.sqrt(dx * dx + dy * dy);
+        let r_sum: number = circle1.radius + circle2.radius;
+        if (dist > r_sum) return null;
+
+        //Concentric circles have no preferred direction
+        let normal: Point = dist === 0 ? {x: 1, y: 0} : {x: dx / dist, y: dy / dist};
+        let depth: number = r_sum - dist;
+        let offset: number = circle1.radius - depth / 2;
+        let contact: Point = {x: circle1.center.x + normal.x * offset, y: circle1.center.y + normal.y * offset};
+        return _CreateManifold(normal, depth, [contact]);
+    }
+
+    /**
+     * Finds the edge of polygon1 which separates it the most from polygon2
+     * @param {Collision2D.Point[]} polygon1 Array of points
+     * @param {Collision2D.Point[]} polygon2 Array of points
+     * @returns {{separation: number, index: number}} Separation (negative when penetrating) and edge index
+     * @private
+     */
+    function _MaxSeparation(polygon1: Point[], polygon2: Point[]): { separation: number, index: number } {
+        let best = {separation: -Infinity, index: 0};
+        for (let i = 0; i < polygon1.length; i++) {
+            let n: Point = _EdgeNormal(polygon1, i);
+            let min = Infinity;
+            for (let p of polygon2) {
+                let s: number = _Dot(n, {x: p.x - polygon1[i].x, y: p.y - polygon1[i].y});
+                if (s < min) min = s;
+            }
+            if (min > best.separation) {
+                best.separation = min;
+                best.index = i;
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Calculates outward unit normal of polygon's edge starting at given vertex
+     * @param {Collision2D.Point[]} polygon Array of points
+     * @param {number} index Index of edge's first vertex
+     * @returns {Collision2D.Point}
+     * @private
+     */
+    function _EdgeNormal(polygon: Point[], index: number): Point {
+        let a: Point = polygon[index], b: Point = polygon[(index + 1) % polygon.length];
+        let o: number = _PolygonOrientation(polygon);
+        return _Normalize({x: (b.y - a.y) * o, y: -(b.x - a.x) * o});
+    }
+
+    /**
+     * Returns 1 when vertices are ordered counter-clockwise (in standard axes) and -1 otherwise
+     * @param {Collision2D.Point[]} polygon Array of points
+     * @returns {number}
+     * @private
+     */
+    function _PolygonOrientation(polygon: Point[]): number {
+        let sum = 0;
+        for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+            sum += polygon[j].x * polygon[i].y - polygon[i].x * polygon[j].y;
+        }
+        return sum >= 0 ? 1 : -1;
+    }
+
+    /**
+     * Clips line segment against half-plane dot(direction, p) >= offset
+     * @param {Collision2D.Point[]} segment Array with up to two points
+     * @param {Collision2D.Point} direction Half-plane normal
+     * @param {number} offset Half-plane offset
+     * @returns {Collision2D.Point[]} Remaining points
+     * @private
+     */
+    function _ClipSegment(segment: Point[], direction: Point, offset: number): Point[] {
+        let toReturn: Point[] = [];
+        if (segment.length === 0) return toReturn;
+        let p0: Point = segment[0], p1: Point = segment[segment.length - 1];
+        let d0: number = _Dot(direction, p0) - offset;
+        let d1: number = _Dot(direction, p1) - offset;
+        if (d0 >= 0) toReturn.push(p0);
+        if (d1 >= 0 && segment.length > 1) toReturn.push(p1);
+        if (d0 * d1 < 0) {
+            let t: number = d0 / (d0 - d1);
+            toReturn.push({x: p0.x + (p1.x - p0.x) * t, y: p0.y + (p1.y - p0.y) * t});
+        }
+        return toReturn;
+    }
+
+    /**
+     * Creates collision manifold object
+     * @param {Collision2D.Point} normal Unit vector from first to second shape
+     * @param {number} depth Penetration depth
+     * @param {Collision2D.Point[]} contacts Contact points
+     * @returns {Collision2D.Manifold}
+     * @private
+     */
+    function _CreateManifold(normal: Point, depth: number, contacts: Point[]): Manifold {
+        return {
+            normal: normal,
+            depth: depth,
+            mtv: {x: normal.x * depth, y: normal.y * depth},
+            contacts: contacts
+        };
+    }
+
+    /**
+     * Calculates dot product of two points treated as vectors
+     * @param {Collision2D.Point} a
+     * @param {Collision2D.Point} b
+     * @returns {number}
+     * @private
+     */
+    function _Dot(a: Point, b: Point): number {
+        return a.x * b.x + a.y * b.y;
+    }
+
+    /**
+     * Returns unit vector with the same direction as given one
+     * @param {Collision2D.Point} v
+     * @returns {Collision2D.Point}
+     * @private
+     */
+    function _Normalize(v: Point): Point {
+        let length: number = Math.sqrt(v.x * v.x + v.y * v.y) || 1;
+        return {x: v.x / length, y: v.y / length};
+    }
+
+    /**
+     * Returns unit direction of ray or null for zero direction
+     * @param {Collision2D.Ray} ray
+     * @returns {Collision2D.Point | null}
+     * @private
+     */
+    function _RayDirection(ray: Ray): Point | null {
+        if (ray.direction.x === 0 && ray.direction.y === 0) return null;
+        return _Normalize(ray.direction);
+    }
+
+    /**
+     * Casts ray against line segment
+     * @param {Collision2D.Ray} ray Object with 'origin':Point, 'direction':Point and optional 'maxDistance':number property
+     * @param {Collision2D.Point[]} line Array with two points
+     * @returns {Collision2D.RaycastHit | null} Hit or null when ray misses
+     */
+    export function RaycastLineSegment(ray: Ray, line: Point[]): RaycastHit | null {
+        let direction: Point | null = _RayDirection(ray);
+        if (direction === null) return null;
+        let maxDistance: number = ray.maxDistance === undefined ? Infinity : ray.maxDistance;
+        return _RaycastSegment(ray.origin, direction, maxDistance, line[0], line[1], 0);
+    }
+
+    /**
+     * Casts ray against circle.
+     * When ray starts inside circle the exit point is returned
+     * @param {Collision2D.Ray} ray Object with 'origin':Point, 'direction':Point and optional 'maxDistance':number property
+     * @param {Collision2D.Circle} circle Object with 'center':Point and 'radius':number property
+     * @returns {Collision2D.RaycastHit | null} Hit or null when ray misses
+     */
+    export function RaycastCircle(ray: Ray, circle: Circle): RaycastHit | null {
+        let d: Point | null = _RayDirection(ray);
+        if (d === null) return null;
+        let maxDistance: number = ray.maxDistance === undefined ? Infinity : ray.maxDistance;
+        let m: Point = {x: ray.origin.x - circle.center.x, y: ray.origin.y - circle.center.y};
+        let b: number = _Dot(m, d);
+        let c: number = _Dot(m, m) - circle.radius * circle.radius;
+        let disc: number = b * b - c;
+        if (disc < 0) return null;
+
+        //Nearest non-negative root of t^2 + 2bt + c = 0
+        let sqrt: number = Math.sqrt(disc);
+        let t: number = -b - sqrt;
+        if (t < 0) t = -b + sqrt;
+        if (t < 0 || t > maxDistance) return null;
+
+        let point: Point = {x: ray.origin.x + d.x * t, y: ray.origin.y + d.y * t};
+        let normal: Point = _Normalize({x: point.x - circle.center.x, y: point.y - circle.center.y});
+        if (_Dot(normal, d) > 0) normal = {x: -normal.x, y: -normal.y};
+        return {distance: t, point: point, normal: normal, edgeIndex: -1};
+    }
+
+    /**
+     * Casts ray against polygon and returns the nearest edge hit
+     * @param {Collision2D.Ray} ray Object with 'origin':Point, 'direction':Point and optional 'maxDistance':number property
+     * @param {Collision2D.Point[]} polygon Array of points
+     * @returns {Collision2D.RaycastHit | null} Hit or null when ray misses
+     */
+    export function RaycastPolygon(ray: Ray, polygon: Point[]): RaycastHit | null {
+        let direction: Point | null = _RayDirection(ray);
+        if (direction === null) return null;
+        let maxDistance: number = ray.maxDistance === undefined ? Infinity : ray.maxDistance;
+        let closest: RaycastHit | null = null;
+        for (let i = 0; i < polygon.length; i++) {
+            let a: Point = polygon[i], b: Point = polygon[(i + 1) % polygon.length];
+            let hit: RaycastHit | null = _RaycastSegment(ray.origin, direction, maxDistance, a, b, i);
+            if (hit !== null && (closest === null || hit.distance < closest.distance)) closest = hit;
+        }
+        return closest;
+    }
+
+    /**
+     * Casts ray against array of shapes and returns the closest hit.
+     * Shape can be circle, line segment (array with two points) or polygon (array of points)
+     * @param {Collision2D.Ray} ray Object with 'origin':Point, 'direction':Point and optional 'maxDistance':number property
+     * @param {Array<Collision2D.Circle | Collision2D.Point[]>} shapes Array of shapes
+     * @returns {Collision2D.RaycastHit | null} Closest hit with 'shapeIndex' set or null when ray misses all shapes
+     */
+    export function RaycastShapes(ray: Ray, shapes: Array<Circle | Point[]>): RaycastHit | null {
+        let closest: RaycastHit | null = null;
+        for (let i = 0; i < shapes.length; i++) {
+            let hit: RaycastHit | null = _RaycastShape(ray, shapes[i]);
+            if (hit === null) continue;
+            hit.shapeIndex = i;
+            if (closest === null || hit.distance < closest.distance) closest = hit;
+        }
+        return closest;
+    }
+
+    /**
+     * Casts ray against array of shapes and returns all hits sorted by distance.
+     * Only the nearest hit of each shape is reported
+     * @param {Collision2D.Ray} ray Object with 'origin':Point, 'direction':Point and optional 'maxDistance':number property
+     * @param {Array<Collision2D.Circle | Collision2D.Point[]>} shapes Array of shapes
+     * @returns {Collision2D.RaycastHit[]} Hits with 'shapeIndex' set, empty when ray misses all shapes
+     */
+    export function RaycastShapesAll(ray: Ray, shapes: Array<Circle | Point[]>): RaycastHit[] {
+        let toReturn: RaycastHit[] = [];
+        for (let i = 0; i < shapes.length; i++) {
+            let hit: RaycastHit | null = _RaycastShape(ray, shapes[i]);
+            if (hit === null) continue;
+            hit.shapeIndex = i;
+            toReturn.push(hit);
+        }
+        toReturn.sort((a, b) => a.distance - b.distance);
+        return toReturn;
+    }
+
+    /**
+     * Casts ray against single shape of any supported type
+     * @param {Collision2D.Ray} ray
+     * @param {Collision2D.Circle | Collision2D.Point[]} shape
+     * @returns {Collision2D.RaycastHit | null}
+     * @private
+     */
+    function _RaycastShape(ray: Ray, shape: Circle | Point[]): RaycastHit | null {
+        if (!Array.isArray(shape)) return RaycastCircle(ray, shape);
+        if (shape.length === 2) return RaycastLineSegment(ray, shape);
+        return RaycastPolygon(ray, shape);
+    }
+
+    /**
+     * Casts normalized ray against line segment from a to b
+     * @param {Collision2D.Point} origin Ray origin
+     * @param {Collision2D.Point} direction Normalized ray direction
+     * @param {number} maxDistance Maximum distance along the ray
+     * @param {Collision2D.Point} a Segment start
+     * @param {Collision2D.Point} b Segment end
+     * @param {number} edgeIndex Index reported in hit
+     * @returns {Collision2D.RaycastHit | null}
+     * @private
+     */
+    function _RaycastSegment(origin: Point, direction: Point, maxDistance: number, a: Point, b: Point, edgeIndex: number): RaycastHit | null {
+        let ex: number = b.x - a.x, ey: number = b.y - a.y;
+        let denom: number = direction.x * ey - direction.y * ex;
+        if (Math.abs(denom) < 1e-12) return null; //Parallel or collinear
+        let ax: number = a.x - origin.x, ay: number = a.y - origin.y;
+        let t: number = (ax * ey - ay * ex) / denom;
+        let u: number = (ax * direction.y - ay * direction.x) / denom;
+        if (t < 0 || t > maxDistance || u < 0 || u > 1) return null;
+
+        let normal: Point = _Normalize({x: ey, y: -ex});
+        if (_Dot(normal, direction) > 0) normal = {x: -normal.x, y: -normal.y};
+        return {
+            distance: t,
+            point: {x: origin.x + direction.x * t, y: origin.y + direction.y * t},
+            normal: normal,
+            edgeIndex: edgeIndex
+        };
+    }
+
+    /**
+     * Calculates time of impact of circle moving against static line segment.
+     * @param {Collision2D.Circle} circle Object with 'center':Point and 'radius':number property (start position)
+     * @param {Collision2D.Point} velocity Vector2 (or Point) with displacement of the circle during the whole step
+     * @param {Collision2D.Point[]} line Array with two points
+     * @returns {Collision2D.TimeOfImpact | null} First contact or null when circle does not hit the segment during the step
+     */
+    export function CircleLineSegmentTimeOfImpact(circle: Circle, velocity: Point, line: Point[]): TimeOfImpact | null {
+        let c: Point = circle.center;
+        let closest: Point = _ClosestPointOnSegment(c, line[0], line[1]);
+        let dx: number = closest.x - c.x, dy: number = closest.y - c.y;
+        if (dx * dx + dy * dy <= circle.radius * circle.radius) return _InitialImpact(c, closest, false);
+        return _SweepCircleSegment(circle, velocity, line[0], line[1]);
+    }
+
+    /**
+     * Calculates time of impact of circle moving against static polygon (may be concave).
+     * @param {Collision2D.Circle} circle Object with 'center':Point and 'radius':number property (start position)
+     * @param {Collision2D.Point} velocity Vector2 (or Point) with displacement of the circle during the whole step
+     * @param {Collision2D.Point[]} polygon Array of points
+     * @returns {Collision2D.TimeOfImpact | null} First contact or null when circle does not hit the polygon during the step
+     */
+    export function CirclePolygonTimeOfImpact(circle: Circle, velocity: Point, polygon: Point[]): TimeOfImpact | null {
+        let c: Point = circle.center;
+
+        //Initial overlap check with the closest point of polygon's boundary
+        let closest: Point = ClosestPointOnPolygon(c, polygon);
+        let distSq: number = (closest.x - c.x) * (closest.x - c.x) + (closest.y - c.y) * (closest.y - c.y);
+        let inside: boolean = PointInsidePolygon(c, polygon);
+        if (inside || distSq <= circle.radius * circle.radius) return _InitialImpact(c, closest, inside);
+
+        let toReturn: TimeOfImpact | null = null;
+        for (let i = 0; i < polygon.length; i++) {
+            let impact: TimeOfImpact | null = _SweepCircleSegment(circle, velocity, polygon[i], polygon[(i + 1) % polygon.length]);
+            if (impact !== null && (toReturn === null || impact.time < toReturn.time)) toReturn = impact;
+        }
+        return toReturn;
+    }
+
+    /**
+     * Calculates time of impact of two moving circles.
+     * @param {Collision2D.Circle} circle1 Object with 'center':Point and 'radius':number property (start position)
+     * @param {Collision2D.Point} velocity1 Vector2 (or Point) with displacement of the first circle during the whole step
+     * @param {Collision2D.Circle} circle2 Object with 'center':Point and 'radius':number property (start position)
+     * @param {Collision2D.Point} velocity2 Vector2 (or Point) with displacement of the second circle during the whole step
+     * @returns {Collision2D.TimeOfImpact | null} First contact or null when circles do not touch during the step
+     */
+    export function CirclesTimeOfImpact(circle1: Circle, velocity1: Point, circle2: Circle, velocity2: Point): TimeOfImpact | null {
+        let r_sum: number = circle1.radius + circle2.radius;
+        let d: Point = {x: circle1.center.x - circle2.center.x, y: circle1.center.y - circle2.center.y};
+        let v: Point = {x: velocity1.x - velocity2.x, y: velocity1.y - velocity2.y};
+
+        //Solve |d + v * t| = r_sum
+        let a: number = _Dot(v, v), b: number = _Dot(d, v), c: number = _Dot(d, d) - r_sum * r_sum;
+        let time: number;
+        if (c <= 0) time = 0;
+        else {
+            if (a === 0 || b >= 0) return null;
+            let disc: number = b * b - a * c;
+            if (disc < 0) return null;
+            time = (-b - Math.sqrt(disc)) / a;
+            if (time > 1) return null;
+        }
+
+        let c1: Point = {x: circle1.center.x + velocity1.x * time, y: circle1.center.y + velocity1.y * time};
+        let c2: Point = {x: circle2.center.x + velocity2.x * time, y: circle2.center.y + velocity2.y * time};
+        let normal: Point = _Normalize({x: c2.x - c1.x, y: c2.y - c1.y});
+        if (normal.x === 0 && normal.y === 0) normal = {x: 1, y: 0};
+        return {
+            time: time,
+            point: {x: c1.x + normal.x * circle1.radius, y: c1.y + normal.y * circle1.radius},
+            normal: normal
+        };
+    }
+
+    /**
+     * Calculates time of impact of two moving convex polygons using swept Separating Axis Theorem.
+     * @param {Collision2D.Point[]} polygon1 Array of points (convex, start position)
+     * @param {Collision2D.Point} velocity1 Vector2 (or Point) with displacement of the first polygon during the whole step
+     * @param {Collision2D.Point[]} polygon2 Array of points (convex, start position)
+     * @param {Collision2D.Point} velocity2 Vector2 (or Point) with displacement of the second polygon during the whole step
+     * @returns {Collision2D.TimeOfImpact | null} First contact or null when polygons do not touch during the step
+     */
+    export function PolygonsTimeOfImpact(polygon1: Point[], velocity1: Point, polygon2: Point[], velocity2: Point): TimeOfImpact | null {
+        let v: Point = {x: velocity1.x - velocity2.x, y: velocity1.y - velocity2.y};
+        let tFirst = -Infinity, tLast = Infinity, normal: Point = {x: 1, y: 0};
+
+        let axes: Point[] = [];
+        for (let i = 0; i < polygon1.length; i++) axes.push(_EdgeNormal(polygon1, i));
+        for (let i = 0; i < polygon2.length; i++) axes.push(_EdgeNormal(polygon2, i));
+
+        for (let axis of axes) {
+            let [min1, max1] = _ProjectPolygon(polygon1, axis);
+            let [min2, max2] = _ProjectPolygon(polygon2, axis);
+            let speed: number = _Dot(v, axis);
+            let tEnter: number, tExit: number, sign: number;
+
+            if (max1 < min2) {
+                if (speed <= 0) return null;
+                tEnter = (min2 - max1) / speed;
+                tExit = (max2 - min1) / speed;
+                sign = 1;
+            } else if (min1 > max2) {
+                if (speed >= 0) return null;
+                tEnter = (max2 - min1) / speed;
+                tExit = (min2 - max1) / speed;
+                sign = -1;
+            } else {
+                tEnter = -Infinity;
+                if (speed > 0) tExit = (max2 - min1) / speed;
+                else if (speed < 0) tExit = (min2 - max1) / speed;
+                else tExit = Infinity;
+                sign = 0;
+            }
+
+            if (tEnter > tFirst) {
+                tFirst = tEnter;
+                normal = {x: axis.x * sign, y: axis.y * sign};
+            }
+            tLast = Math.min(tLast, tExit);
+            if (tFirst > tLast || tFirst > 1) return null;
+        }
+
+        //Already overlapping at the start of the step
+        if (tFirst <= 0) {
+            let manifold: Manifold | null = PolygonsCollision(polygon1, polygon2);
+            if (manifold === null) return null;
+            return {time: 0, point: manifold.contacts[0], normal: manifold.normal};
+        }
+
+        let moved1: Point[] = polygon1.map(p => ({x: p.x + velocity1.x * tFirst, y: p.y + velocity1.y * tFirst}));
+        let moved2: Point[] = polygon2.map(p => ({x: p.x + velocity2.x * tFirst, y: p.y + velocity2.y * tFirst}));
+        return {time: tFirst, point: _TouchingPoint(moved1, moved2, normal), normal: normal};
+    }
+
+    /**
+     * Sweeps circle against line segment (circle must not overlap the segment at start)
+     * @param {Collision2D.Circle} circle
+     * @param {Collision2D.Point} velocity
+     * @param {Collision2D.Point} a Segment start
+     * @param {Collision2D.Point} b Segment end
+     * @returns {Collision2D.TimeOfImpact | null}
+     * @private
+     */
+    function _SweepCircleSegment(circle: Circle, velocity: Point, a: Point, b: Point): TimeOfImpact | null {
+        //Segment inflated by radius forms a capsule which is hit by ray cast from circle's center
+        let length: number = Math.sqrt(velocity.x * velocity.x + velocity.y * velocity.y);
+        if (length === 0) return null;
+        let r: number = circle.radius, c: Point = circle.center;
+        let ray: Ray = {origin: c, direction: velocity, maxDistance: length};
+        let direction: Point = _Normalize(velocity);
+        let n: Point = _Normalize({x: b.y - a.y, y: a.x - b.x});
+
+        let distance = Infinity;
+        for (let sign of [1, -1]) {
+            let oa: Point = {x: a.x + n.x * r * sign, y: a.y + n.y * r * sign};
+            let ob: Point = {x: b.x + n.x * r * sign, y: b.y + n.y * r * sign};
+            let hit: RaycastHit | null = _RaycastSegment(c, direction, length, oa, ob, 0);
+            if (hit !== null) distance = Math.min(distance, hit.distance);
+        }
+        for (let end of [a, b]) {
+            let hit: RaycastHit | null = RaycastCircle(ray, {center: end, radius: r});
+            if (hit !== null) distance = Math.min(distance, hit.distance);
+        }
+        if (distance === Infinity) return null;
+
+        let time: number = distance / length;
+        let center: Point = {x: c.x + velocity.x * time, y: c.y + velocity.y * time};
+        let point: Point = _ClosestPointOnSegment(center, a, b);
+        let normal: Point = _Normalize({x: point.x - center.x, y: point.y - center.y});
+        return {time: time, point: point, normal: normal};
+    }
+
+    /**
+     * Creates time of impact for circle overlapping a shape at the start of the step
+     * @param {Collision2D.Point} center Circle's center
+     * @param {Collision2D.Point} closest The closest point of shape's boundary
+     * @param {boolean} inside True when center lies inside the shape
+     * @returns {Collision2D.TimeOfImpact}
+     * @private
+     */
+    function _InitialImpact(center: Point, closest: Point, inside: boolean): TimeOfImpact {
+        let normal: Point = _Normalize({x: closest.x - center.x, y: closest.y - center.y});
+        if (inside) normal = {x: -normal.x, y: -normal.y};
+        return {time: 0, point: {x: closest.x, y: closest.y}, normal: normal};
+    }
+
+    /**
+     * Calculates point of contact of two touching convex polygons
+     * @param {Collision2D.Point[]} polygon1 Array of points
+     * @param {Collision2D.Point[]} polygon2 Array of points
+     * @param {Collision2D.Point} normal Unit vector pointing from polygon1 to polygon2
+     * @returns {Collision2D.Point} Touching vertex or middle of touching edges
+     * @private
+     */
+    function _TouchingPoint(polygon1: Point[], polygon2: Point[], normal: Point): Point {
+        const support = (polygon: Point[], direction: Point): Point[] => {
+            let max: number = -Infinity;
+            for (let p of polygon) max = Math.max(max, _Dot(p, direction));
+            return polygon.filter(p => _Dot(p, direction) >= max - 1e-9);
+        };
+        let s1: Point[] = support(polygon1, normal);
+        let s2: Point[] = support(polygon2, {x: -normal.x, y: -normal.y});
+        if (s1.length === 1) return {x: s1[0].x, y: s1[0].y};
+        if (s2.length === 1) return {x: s2[0].x, y: s2[0].y};
+
+        //Edge against edge, take the middle of their common part
+        let tangent: Point = {x: -normal.y, y: normal.x};
+        let [min1, max1] = _ProjectPolygon(s1, tangent);
+        let [min2, max2] = _ProjectPolygon(s2, tangent);
+        let middle: number = (Math.max(min1, min2) + Math.min(max1, max2)) / 2;
+        let offset: number = _Dot(s1[0], normal);
+        return {x: tangent.x * middle + normal.x * offset, y: tangent.y * middle + normal.y * offset};
+    }
+
+    /**
+     * Projects polygon onto axis
+     * @param {Collision2D.Point[]} polygon Array of points
+     * @param {Collision2D.Point} axis Unit vector
+     * @returns {[number, number]} Minimum and maximum projection
+     * @private
+     */
+    function _ProjectPolygon(polygon: Point[], axis: Point): [number, number] {
+        let min = Infinity, max = -Infinity;
+        for (let p of polygon) {
+            let d: number = _Dot(p, axis);
+            if (d < min) min = d;
+            if (d > max) max = d;
+        }
+        return [min, max];
+    }
+
+    /**
+     * Calculates the closest point to p lying on line segment from a to b
+     * @param {Collision2D.Point} p
+     * @param {Collision2D.Point} a Segment start
+     * @param {Collision2D.Point} b Segment end
+     * @returns {Collision2D.Point}
+     * @private
+     */
+    function _ClosestPointOnSegment(p: Point, a: Point, b: Point): Point {
+        let abx: number = b.x - a.x, aby: number = b.y - a.y;
+        let lengthSq: number = abx * abx + aby * aby;
+        let t: number = lengthSq === 0 ? 0 : ((p.x - a.x) * abx + (p.y - a.y) * aby) / lengthSq;
+        t = Math.max(0, Math.min(1, t));
+        return {x: a.x + abx * t, y: a.y + aby * t};
+    }
+
+    /**
+     * Calculates the closest point lying on line segment
+     * @param {Collision2D.Point} point Object with 'x' and 'y' property
+     * @param {Collision2D.Point[]} line Array with two points
+     * @returns {Collision2D.Point}
+     */
+    export function ClosestPointOnLineSegment(point: Point, line: Point[]): Point {
+        return _ClosestPointOnSegment(point, line[0], line[1]);
+    }
+
+    /**
+     * Calculates the closest point lying on polygon's boundary
+     * @param {Collision2D.Point} point Object with 'x' and 'y' property
+     * @param {Collision2D.Point[]} polygon Array of points
+     * @returns {Collision2D.Point}
+     */
+    export function ClosestPointOnPolygon(point: Point, polygon: Point[]): Point {
+        let closest: Point = {x: polygon[0].x, y: polygon[0].y}, minDistSq = Infinity;
+        for (let i = 0; i < polygon.length; i++) {
+            let p: Point = _ClosestPointOnSegment(point, polygon[i], polygon[(i + 1) % polygon.length]);
+            let distSq: number = (p.x - point.x) * (p.x - point.x) + (p.y - point.y) * (p.y - point.y);
+            if (distSq < minDistSq) {
+                minDistSq = distSq;
+                closest = p;
+            }
+        }
+        return closest;
+    }
+
+    /**
+     * Calculates the closest point lying on circle's boundary.
+     * For point in the center any boundary point is the closest one, point on the right side is returned
+     * @param {Collision2D.Point} point Object with 'x' and 'y' property
+     * @param {Collision2D.Circle} circle Object with 'center':Point and 'radius':number property
+     * @returns {Collision2D.Point}
+     */
+    export function ClosestPointOnCircle(point: Point, circle: Circle): Point {
+        let dx: number = point.x - circle.center.x, dy: number = point.y - circle.center.y;
+        let dist: number = Math.sqrt(dx * dx + dy * dy);
+        if (dist === 0) return {x: circle.center.x + circle.radius, y: circle.center.y};
+        return {x: circle.center.x + dx / dist * circle.radius, y: circle.center.y + dy / dist * circle.radius};
+    }
+
+    /**
+     * Calculates signed distance from point to polygon's boundary.
+     * @param {Collision2D.Point} point Object with 'x' and 'y' property
+     * @param {Collision2D.Point[]} polygon Array of points
+     * @returns {number} Distance, negative when point is inside polygon
+     */
+    export function SignedDistanceToPolygon(point: Point, polygon: Point[]): number {
+        let closest: Point = ClosestPointOnPolygon(point, polygon);
+        let dist: number = Math.sqrt((closest.x - point.x) * (closest.x - point.x) + (closest.y - point.y) * (closest.y - point.y));
+        return PointInsidePolygon(point, polygon) ? -dist : dist;
+    }
+
+    /**
+     * Creates support function of convex polygon or line segment
+     * @param {Collision2D.Point[]} polygon Array of points
+     * @returns {Collision2D.SupportFunction}
+     */
+    export function PolygonSupport(polygon: Point[]): SupportFunction {
+        return (direction: Point): Point => {
+            let best: Point = polygon[0], max: number = -Infinity;
+            for (let p of polygon) {
+                let d: number = _Dot(p, direction);
+                if (d > max) {
+                    max = d;
+                    best = p;
+                }
+            }
+            return {x: best.x, y: best.y};
+        };
+    }
+
+    /**
+     * Creates support function of circle
+     * @param {Collision2D.Circle} circle Object with 'center':Point and 'radius':number property
+     * @returns {Collision2D.SupportFunction}
+     */
+    export function CircleSupport(circle: Circle): SupportFunction {
+        return (direction: Point): Point => {
+            let d: Point = _Normalize(direction);
+            return {x: circle.center.x + d.x * circle.radius, y: circle.center.y + d.y * circle.radius};
+        };
+    }
+
+    /**
+     * Calculates minimum distance between two convex shapes given by support functions (GJK algorithm).
+     * Overlapping shapes have distance 0 and both witness points set to a common point
+     * @param {Collision2D.SupportFunction} support1 Support function of the first shape
+     * @param {Collision2D.SupportFunction} support2 Support function of the second shape
+     * @returns {Collision2D.DistanceResult}
+     */
+    export function GJKDistance(support1: SupportFunction, support2: SupportFunction): DistanceResult {
+        return _GJK(support1, support2, 0, 0);
+    }
+
+    /**
+     * Calculates minimum distance between two convex shapes.
+     * Shape can be circle, line segment (array with two points) or convex polygon (array of points).
+     * Overlapping shapes have distance 0
+     * @param {Collision2D.Circle | Collision2D.Point[]} shape1
+     * @param {Collision2D.Circle | Collision2D.Point[]} shape2
+     * @returns {Collision2D.DistanceResult}
+     */
+    export function ShapesDistance(shape1: Circle | Point[], shape2: Circle | Point[]): DistanceResult {
+        //Circles are reduced to their centers and radii are applied afterwards, which makes GJK converge faster
+        const core = (shape: Circle | Point[]): SupportFunction =>
+            Array.isArray(shape) ? PolygonSupport(shape) : PolygonSupport([shape.center]);
+        const radius = (shape: Circle | Point[]): number => Array.isArray(shape) ? 0 : shape.radius;
+        return _GJK(core(shape1), core(shape2), radius(shape1), radius(shape2));
+    }
+
+    /**
+     * Interface of GJK simplex vertex
+     * 'w' is a point of Minkowski difference (a - b), 'l' is its barycentric coordinate
+     */
+    interface SimplexVertex {
+        a: Point,
+        b: Point,
+        w: Point,
+        l: number
+    }
+
+    /**
+     * GJK distance algorithm with shapes rounded by given radii
+     * @param {Collision2D.SupportFunction} support1
+     * @param {Collision2D.SupportFunction} support2
+     * @param {number} radius1
+     * @param {number} radius2
+     * @returns {Collision2D.DistanceResult}
+     * @private
+     */
+    function _GJK(support1: SupportFunction, support2: SupportFunction, radius1: number, radius2: number): DistanceResult {
+        //https://box2d.org/files/ErinCatto_GJK_GDC2010.pdf
+        const vertex = (direction: Point): SimplexVertex => {
+            let a: Point = support1(direction);
+            let b: Point = support2({x: -direction.x, y: -direction.y});
+            return {a: a, b: b, w: {x: a.x - b.x, y: a.y - b.y}, l: 1};
+        };
+
+        let simplex: SimplexVertex[] = [vertex({x: 1, y: 0})];
+        let overlapping: boolean = false;
+        for (let iteration = 0; iteration < 32; iteration++) {
+            simplex = _SolveSimplex(simplex);
+            if (simplex.length === 3) {
+                overlapping = true;
+                break;
+            }
+
+            let v: Point = _SimplexClosestPoint(simplex);
+            let vv: number = _Dot(v, v);
+            if (vv < 1e-18) {
+                overlapping = true;
+                break;
+            }
+
+            let next: SimplexVertex = vertex({x: -v.x, y: -v.y});
+
+            //No progress towards the origin or vertex already in simplex
+            if (vv - _Dot(v, next.w) <= 1e-10 * vv) break;
+            if (simplex.some(s => s.w.x === next.w.x && s.w.y === next.w.y)) break;
+            simplex.push(next);
+        }
+
+        let point1: Point = {x: 0, y: 0}, point2: Point = {x: 0, y: 0};
+        for (let s of simplex) {
+            point1.x += s.a.x * s.l;
+            point1.y += s.a.y * s.l;
+            point2.x += s.b.x * s.l;
+            point2.y += s.b.y * s.l;
+        }
+        let dx: number = point2.x - point1.x, dy: number = point2.y - point1.y;
+        let distance: number = overlapping ? 0 : Math.sqrt(dx * dx + dy * dy);
+
+        //Apply radii of rounded shapes
+        if (radius1 > 0 || radius2 > 0) {
+            if (distance > radius1 + radius2) {
+                let n: Point = {x: dx / distance, y: dy / distance};
+                point1 = {x: point1.x + n.x * radius1, y: point1.y + n.y * radius1};
+                point2 = {x: point2.x - n.x * radius2, y: point2.y - n.y * radius2};
+                distance -= radius1 + radius2;
+            } else {
+                let middle: Point = {x: (point1.x + point2.x) / 2, y: (point1.y + point2.y) / 2};
+                point1 = middle;
+                point2 = {x: middle.x, y: middle.y};
+                distance = 0;
+            }
+        }
+        return {distance: distance, point1: point1, point2: point2};
+    }
+
+    /**
+     * Reduces simplex to the smallest subset containing the point closest to the origin
+     * and sets barycentric coordinates of its vertices
+     * @param {SimplexVertex[]} simplex One, two or three vertices
+     * @returns {SimplexVertex[]}
+     * @private
+     */
+    function _SolveSimplex(simplex: SimplexVertex[]): SimplexVertex[] {
+        const only = (s: SimplexVertex): SimplexVertex[] => {
+            s.l = 1;
+            return [s];
+        };
+        const pair = (s1: SimplexVertex, s2: SimplexVertex, d1: number, d2: number): SimplexVertex[] => {
+            s1.l = d1 / (d1 + d2);
+            s2.l = d2 / (d1 + d2);
+            return [s1, s2];
+        };
+        const cross = (a: Point, b: Point): number => a.x * b.y - a.y * b.x;
+
+        if (simplex.length === 1) return only(simplex[0]);
+
+        let [s1, s2] = simplex;
+        let w1: Point = s1.w, w2: Point = s2.w;
+        let e12: Point = {x: w2.x - w1.x, y: w2.y - w1.y};
+        let d12_1: number = _Dot(w2, e12), d12_2: number = -_Dot(w1, e12);
+
+        if (simplex.length === 2) {
+            if (d12_2 <= 0) return only(s1);
+            if (d12_1 <= 0) return only(s2);
+            return pair(s1, s2, d12_1, d12_2);
+        }
+
+        let s3: SimplexVertex = simplex[2], w3: Point = s3.w;
+        let e13: Point = {x: w3.x - w1.x, y: w3.y - w1.y};
+        let d13_1: number = _Dot(w3, e13), d13_2: number = -_Dot(w1, e13);
+        let e23: Point = {x: w3.x - w2.x, y: w3.y - w2.y};
+        let d23_1: number = _Dot(w3, e23), d23_2: number = -_Dot(w2, e23);
+        let n123: number = cross(e12, e13);
+        let d123_1: number = n123 * cross(w2, w3);
+        let d123_2: number = n123 * cross(w3, w1);
+        let d123_3: number = n123 * cross(w1, w2);
+
+        if (d12_2 <= 0 && d13_2 <= 0) return only(s1);
+        if (d12_1 > 0 && d12_2 > 0 && d123_3 <= 0) return pair(s1, s2, d12_1, d12_2);
+        if (d13_1 > 0 && d13_2 > 0 && d123_2 <= 0) return pair(s1, s3, d13_1, d13_2);
+        if (d12_1 <= 0 && d23_2 <= 0) return only(s2);
+        if (d13_1 <= 0 && d23_1 <= 0) return only(s3);
+        if (d23_1 > 0 && d23_2 > 0 && d123_1 <= 0) return pair(s2, s3, d23_1, d23_2);
+
+        //Origin inside triangle
+        let sum: number = d123_1 + d123_2 + d123_3;
+        s1.l = d123_1 / sum;
+        s2.l = d123_2 / sum;
+        s3.l = d123_3 / sum;
+        return [s1, s2, s3];
+    }
+
+    /**
+     * Calculates point of simplex closest to the origin using barycentric coordinates
+     * @param {SimplexVertex[]} simplex
+     * @returns {Collision2D.Point}
+     * @private
+     */
+    function _SimplexClosestPoint(simplex: SimplexVertex[]): Point {
+        let toReturn: Point = {x: 0, y: 0};
+        for (let s of simplex) {
+            toReturn.x += s.w.x * s.l;
+            toReturn.y += s.w.y * s.l;
+        }
+        return toReturn;
+    }
 }
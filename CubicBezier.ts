@@ -0,0 +1,80 @@
+/// <reference path="Curve.ts" />
+
+/**
+ * Cubic Bezier curve with start point p0, control points p1, p2 and end point p3
+ */
+class CubicBezier extends Curve {
+    public p0: Vector2;
+    public p1: Vector2;
+    public p2: Vector2;
+    public p3: Vector2;
+
+    constructor(p0: Vector2, p1: Vector2, p2: Vector2, p3: Vector2) {
+        super();
+        this.p0 = p0;
+        this.p1 = p1;
+        this.p2 = p2;
+        this.p3 = p3;
+        return this;
+    }
+
+    public getPoint(t: number): Vector2 {
+        let mt: number = 1 - t;
+        let a: number = mt * mt * mt, b: number = 3 * mt * mt * t, c: number = 3 * mt * t * t, d: number = t * t * t;
+        let x = a * this.p0.x + b * this.p1.x + c * this.p2.x + d * this.p3.x;
+        let y = a * this.p0.y + b * this.p1.y + c * this.p2.y + d * this.p3.y;
+        return new Vector2(x, y);
+    }
+
+    public getDerivative(t: number): Vector2 {
+        let mt: number = 1 - t;
+        let a: number = 3 * mt * mt, b: number = 6 * mt * t, c: number = 3 * t * t;
+        let x = a * (this.p1.x - this.p0.x) + b * (this.p2.x - this.p1.x) + c * (this.p3.x - this.p2.x);
+        let y = a * (this.p1.y - this.p0.y) + b * (this.p2.y - this.p1.y) + c * (this.p3.y - this.p2.y);
+        return new Vector2(x, y);
+    }
+
+    /**
+     * Splits curve at parameter t (de Casteljau's algorithm)
+     * @param {number} t
+     * @returns {CubicBezier[]}
+     */
+    public split(t: number): CubicBezier[] {
+        let p01: Vector2 = Vector2.Lerp(this.p0, this.p1, t), p12: Vector2 = Vector2.Lerp(this.p1, this.p2, t);
+        let p23: Vector2 = Vector2.Lerp(this.p2, this.p3, t);
+        let p012: Vector2 = Vector2.Lerp(p01, p12, t), p123: Vector2 = Vector2.Lerp(p12, p23, t);
+        let middle: Vector2 = Vector2.Lerp(p012, p123, t);
+        return [
+            new CubicBezier(this.p0.clone(), p01, p012, middle),
+            new CubicBezier(middle.clone(), p123, p23, this.p3.clone())
+        ];
+    }
+
+    /**
+     * Calculates exact bounding box using extremes where derivative is zero
+     * @returns {{minX: number, minY: number, maxX: number, maxY: number}}
+     */
+    public getBounds(): { minX: number, minY: number, maxX: number, maxY: number } {
+        let points: Vector2[] = [this.p0, this.p3];
+        const axes: Array<'x' | 'y'> = ['x', 'y'];
+        for (let axis of axes) {
+            let p0: number = this.p0[axis], p1: number = this.p1[axis];
+            let p2: number = this.p2[axis], p3: number = this.p3[axis];
+
+            //Derivative divided by 3 is quadratic a * t^2 + b * t + c
+            let a: number = -p0 + 3 * p1 - 3 * p2 + p3, b: number = 2 * (p0 - 2 * p1 + p2), c: number = p1 - p0;
+            let roots: number[] = [];
+            if (Math.abs(a) < 1e-12) {
+                if (b !== 0) roots.push(-c / b);
+            } else {
+                let discriminant: number = b * b - 4 * a * c;
+                if (discriminant >= 0) {
+                    let sqrt: number = Math.sqrt(discriminant);
+                    roots.push((-b + sqrt) / (2 * a), (-b - sqrt) / (2 * a));
+                }
+            }
+            for (let t of roots) if (t > 0 && t < 1) points.push(this.getPoint(t));
+        }
+        return Polygon.GetBounds(points);
+    }
+}
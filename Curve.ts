@@ -0,0 +1,319 @@
+/**
+ * Base of parametric curves built on Vector2, parameter t goes from 0 (start) to 1 (end).
+ * Subclasses provide point and derivative evaluation, splitting and bounds.
+ * Arc-length lookup, nearest point, flattening and intersections are shared.
+ * Arc-length table is cached, call updateArcLengths after changing control points.
+ */
+abstract class Curve {
+    private _arcLengths: number[] | null;
+
+    constructor() {
+        this._arcLengths = null;
+    }
+
+    /**
+     * Calculates point at parameter t
+     * @param {number} t
+     * @returns {Vector2}
+     */
+    public abstract getPoint(t: number): Vector2;
+
+    /**
+     * Calculates derivative (velocity) at parameter t
+     * @param {number} t
+     * @returns {Vector2}
+     */
+    public abstract getDerivative(t: number): Vector2;
+
+    /**
+     * Splits curve into two curves at parameter t
+     * @param {number} t
+     * @returns {Curve[]}
+     */
+    public abstract split(t: number): Curve[];
+
+    /**
+     * Calculates axis-aligned bounding box of curve
+     * @returns {{minX: number, minY: number, maxX: number, maxY: number}}
+     */
+    public abstract getBounds(): { minX: number, minY: number, maxX: number, maxY: number };
+
+    /**
+     * Calculates unit tangent at parameter t.
+     * Where derivative vanishes (cusps, coincident control points, ends of open B-splines) direction of chord around t is used
+     * @param {number} t
+     * @returns {Vector2}
+     */
+    public getTangent(t: number): Vector2 {
+        let derivative: Vector2 = this.getDerivative(t);
+        if (derivative.length() > 1e-12) return derivative.normalize();
+        //Nearby chord follows limit direction of tangent, whole curve's chord is the last resort
+        for (let h of [1e-4, 1]) {
+            let chord: Vector2 = Vector2.Subtract(this.getPoint(Math.min(1, t + h)), this.getPoint(Math.max(0, t - h)));
+            if (chord.length() > 1e-12) return chord.normalize();
+        }
+        return derivative;
+    }
+
+    /**
+     * Calculates length of curve
+     * @returns {number}
+     */
+    public getLength(): number {
+        let lengths: number[] = this._getArcLengths();
+        return lengths[lengths.length - 1];
+    }
+
+    /**
+     * Clears cached arc lengths, needed after control points change
+     */
+    public updateArcLengths(): void {
+        this._arcLengths = null;
+    }
+
+    /**
+     * Finds parameter t of point at given distance along curve, used for constant-speed motion
+     * @param {number} length Distance from start of curve
+     * @returns {number}
+     */
+    public getTAtLength(length: number): number {
+        let lengths: number[] = this._getArcLengths();
+        let total: number = lengths[lengths.length - 1];
+        if (length <= 0 || total === 0) return 0;
+        if (length >= total) return 1;
+
+        let low = 0, high: number = lengths.length - 1;
+        while (high - low > 1) {
+            let mid: number = (low + high) >> 1;
+            if (lengths[mid] < length) low = mid;
+            else high = mid;
+        }
+        let fraction: number = (length - lengths[low]) / (lengths[high] - lengths[low] || 1);
+        return (low + fraction) / (lengths.length - 1);
+    }
+
+    /**
+     * Calculates point at given distance along curve
+     * @param {number} length Distance from start of curve
+     * @returns {Vector2}
+     */
+    public getPointAtLength(length: number): Vector2 {
+        return this.getPoint(this.getTAtLength(length));
+    }
+
+    /**
+     * Returns points evenly spaced along curve
+     * @param {number} count Number of points (at least 2)
+     * @returns {Vector2[]}
+     */
+    public getSpacedPoints(count: number): Vector2[] {
+        let total: number = this.getLength();
+        let toReturn: Vector2[] = [];
+        for (let i = 0; i < count; i++) toReturn.push(this.getPointAtLength(total * i / (count - 1)));
+        return toReturn;
+    }
+
+    /**
+     * Finds point of curve nearest to given one
+     * @param {{x: number, y: number}} point
+     * @returns {{t: number, point: Vector2, distance: number}}
+     */
+    public getNearest(point: { x: number, y: number }): { t: number, point: Vector2, distance: number } {
+        const distance = (t: number): number => {
+            let p: Vector2 = this.getPoint(t);
+            return (p.x - point.x) * (p.x - point.x) + (p.y - point.y) * (p.y - point.y);
+        };
+
+        //Coarse sampling finds the right neighbourhood, ternary search refines it
+        let samples: number = 32 * this.getPieces();
+        let best = 0, bestDistance = Infinity;
+        for (let i = 0; i <= samples; i++) {
+            let d: number = distance(i / samples);
+            if (d < bestDistance) {
+                bestDistance = d;
+                best = i / samples;
+            }
+        }
+        let low: number = Math.max(0, best - 1 / samples), high: number = Math.min(1, best + 1 / samples);
+        for (let i = 0; i < 40; i++) {
+            let m1: number = low + (high - low) / 3, m2: number = high - (high - low) / 3;
+            if (distance(m1) < distance(m2)) high = m2;
+            else low = m1;
+        }
+        let t: number = (low + high) / 2;
+        if (distance(t) > bestDistance) t = best;
+        return {t: t, point: this.getPoint(t), distance: Math.sqrt(distance(t))};
+    }
+
+    /**
+     * Approximates curve with polyline, usable by Polygon and Collision2D functions
+     * @param {number} tolerance Maximum distance between curve and polyline (default 0.25)
+     * @returns {Vector2[]}
+     */
+    public flatten(tolerance?: number): Vector2[] {
+        return this._flatten(tolerance === undefined ? 0.25 : tolerance).points;
+    }
+
+    /**
+     * Finds intersections of curve with line segment
+     * @param {{x: number, y: number}} a Start of segment
+     * @param {{x: number, y: number}} b End of segment
+     * @param {number} tolerance Flattening tolerance deciding precision (default 0.01)
+     * @returns {Array<{t: number, point: Vector2}>} Sorted by t
+     */
+    public intersectSegment(a: { x: number, y: number }, b: { x: number, y: number }, tolerance?: number): Array<{ t: number, point: Vector2 }> {
+        let flat = this._flatten(tolerance === undefined ? 0.01 : tolerance);
+        let toReturn: Array<{ t: number, point: Vector2 }> = [];
+        for (let i = 0; i < flat.points.length - 1; i++) {
+            let hit = Curve._SegmentsIntersection(flat.points[i], flat.points[i + 1], a, b);
+            if (hit === null) continue;
+            let t: number = this._refineSegmentHit(flat.t[i] + (flat.t[i + 1] - flat.t[i]) * hit.s, a, b);
+            let point: Vector2 = this.getPoint(t);
+            //Hit in shared vertex of two polyline segments is reported once
+            if (toReturn.length > 0 && toReturn[toReturn.length - 1].point.distanceTo(point) < 1e-9) continue;
+            toReturn.push({t: t, point: point});
+        }
+        return toReturn;
+    }
+
+    /**
+     * Finds intersections of two curves
+     * @param {Curve} curve
+     * @param {number} tolerance Flattening tolerance deciding precision (default 0.01)
+     * @returns {Array<{t1: number, t2: number, point: Vector2}>} Parameters on this and given curve, sorted by t1
+     */
+    public intersectCurve(curve: Curve, tolerance?: number): Array<{ t1: number, t2: number, point: Vector2 }> {
+        if (tolerance === undefined) tolerance = 0.01;
+        let b1 = this.getBounds(), b2 = curve.getBounds();
+        if (b1.maxX < b2.minX || b2.maxX < b1.minX || b1.maxY < b2.minY || b2.maxY < b1.minY) return [];
+
+        let f1 = this._flatten(tolerance), f2 = curve._flatten(tolerance);
+        let toReturn: Array<{ t1: number, t2: number, point: Vector2 }> = [];
+        for (let i = 0; i < f1.points.length - 1; i++) {
+            let p: Vector2 = f1.points[i], q: Vector2 = f1.points[i + 1];
+            for (let j = 0; j < f2.points.length - 1; j++) {
+                let r: Vector2 = f2.points[j], s: Vector2 = f2.points[j + 1];
+                if (Math.max(p.x, q.x) < Math.min(r.x, s.x) || Math.max(r.x, s.x) < Math.min(p.x, q.x) ||
+                    Math.max(p.y, q.y) < Math.min(r.y, s.y) || Math.max(r.y, s.y) < Math.min(p.y, q.y)) continue;
+                let hit = Curve._SegmentsIntersection(p, q, r, s);
+                if (hit === null || toReturn.some(other => other.point.distanceTo(hit!.point) < tolerance!)) continue;
+                let refined = this._refineCurveHit(curve, f1.t[i] + (f1.t[i + 1] - f1.t[i]) * hit.s, f2.t[j] + (f2.t[j + 1] - f2.t[j]) * hit.u);
+                toReturn.push({t1: refined.t1, t2: refined.t2, point: this.getPoint(refined.t1)});
+            }
+        }
+        return toReturn.sort((a, b) => a.t1 - b.t1);
+    }
+
+    /**
+     * Returns number of polynomial pieces, more pieces need more samples
+     * @returns {number}
+     */
+    protected getPieces(): number {
+        return 1;
+    }
+
+    /**
+     * Flattens curve by recursive subdivision keeping parameter of every point
+     * @private
+     */
+    private _flatten(tolerance: number): { points: Vector2[], t: number[] } {
+        let points: Vector2[] = [this.getPoint(0)], t: number[] = [0];
+        const subdivide = (t0: number, p0: Vector2, t1: number, p1: Vector2, depth: number): void => {
+            let tm: number = (t0 + t1) / 2;
+            let pm: Vector2 = this.getPoint(tm);
+            let dx: number = p1.x - p0.x, dy: number = p1.y - p0.y;
+            let length: number = Math.sqrt(dx * dx + dy * dy);
+            let deviation: number = length === 0 ? pm.distanceTo(p0) : Math.abs((pm.x - p0.x) * dy - (pm.y - p0.y) * dx) / length;
+            if (depth < 16 && deviation > tolerance) {
+                subdivide(t0, p0, tm, pm, depth + 1);
+                subdivide(tm, pm, t1, p1, depth + 1);
+            } else {
+                points.push(p1);
+                t.push(t1);
+            }
+        };
+
+        //Starting with several intervals per piece keeps S-shaped pieces from being missed
+        let intervals: number = 4 * this.getPieces();
+        for (let i = 0; i < intervals; i++) {
+            subdivide(i / intervals, points[points.length - 1], (i + 1) / intervals, this.getPoint((i + 1) / intervals), 0);
+        }
+        return {points: points, t: t};
+    }
+
+    /**
+     * Improves parameter of curve/segment intersection with Newton's method on the exact curve
+     * @private
+     */
+    private _refineSegmentHit(t: number, a: { x: number, y: number }, b: { x: number, y: number }): number {
+        let dx: number = b.x - a.x, dy: number = b.y - a.y;
+        const side = (p: Vector2): number => (p.x - a.x) * dy - (p.y - a.y) * dx;
+        for (let i = 0; i < 8; i++) {
+            let value: number = side(this.getPoint(t));
+            let derivative: Vector2 = this.getDerivative(t);
+            let slope: number = derivative.x * dy - derivative.y * dx;
+            if (slope === 0) break;
+            let next: number = t - value / slope;
+            //Refinement staying in parameter range and improving the result is accepted
+            if (next < 0 || next > 1 || Math.abs(side(this.getPoint(next))) >= Math.abs(value)) break;
+            t = next;
+        }
+        return t;
+    }
+
+    /**
+     * Improves parameters of curve/curve intersection with Newton's method solving p1(t1) = p2(t2)
+     * @private
+     */
+    private _refineCurveHit(curve: Curve, t1: number, t2: number): { t1: number, t2: number } {
+        const error = (u: number, v: number): number => this.getPoint(u).distanceTo(curve.getPoint(v));
+        for (let i = 0; i < 8; i++) {
+            let difference: Vector2 = Vector2.Subtract(this.getPoint(t1), curve.getPoint(t2));
+            let d1: Vector2 = this.getDerivative(t1), d2: Vector2 = curve.getDerivative(t2);
+            //Jacobian [d1, -d2] solved by Cramer's rule
+            let determinant: number = -d1.x * d2.y + d1.y * d2.x;
+            if (determinant === 0) break;
+            let next1: number = t1 - (-difference.x * d2.y + difference.y * d2.x) / determinant;
+            let next2: number = t2 - (d1.x * difference.y - d1.y * difference.x) / determinant;
+            if (next1 < 0 || next1 > 1 || next2 < 0 || next2 > 1 || error(next1, next2) >= difference.length()) break;
+            t1 = next1;
+            t2 = next2;
+        }
+        return {t1: t1, t2: t2};
+    }
+
+    /**
+     * Builds table of lengths of curve from start to uniformly sampled parameters
+     * @private
+     */
+    private _getArcLengths(): number[] {
+        if (this._arcLengths !== null) return this._arcLengths;
+        let samples: number = 64 * this.getPieces();
+        let lengths: number[] = [0];
+        let previous: Vector2 = this.getPoint(0);
+        for (let i = 1; i <= samples; i++) {
+            let current: Vector2 = this.getPoint(i / samples);
+            lengths.push(lengths[i - 1] + previous.distanceTo(current));
+            previous = current;
+        }
+        this._arcLengths = lengths;
+        return lengths;
+    }
+
+    /**
+     * Intersects segments pq and rs
+     * @returns {{point: Vector2, s: number, u: number} | null} Point and parameters on both segments
+     * @private
+     */
+    private static _SegmentsIntersection(p: { x: number, y: number }, q: { x: number, y: number },
+                                         r: { x: number, y: number }, s: { x: number, y: number }): { point: Vector2, s: number, u: number } | null {
+        let dx1: number = q.x - p.x, dy1: number = q.y - p.y;
+        let dx2: number = s.x - r.x, dy2: number = s.y - r.y;
+        let denominator: number = dx1 * dy2 - dy1 * dx2;
+        if (denominator === 0) return null;
+        let a: number = ((r.x - p.x) * dy2 - (r.y - p.y) * dx2) / denominator;
+        let b: number = ((r.x - p.x) * dy1 - (r.y - p.y) * dx1) / denominator;
+        if (a < 0 || a > 1 || b < 0 || b > 1) return null;
+        return {point: new Vector2(p.x + dx1 * a, p.y + dy1 * a), s: a, u: b};
+    }
+}
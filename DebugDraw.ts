@@ -0,0 +1,172 @@
+/**
+ * Styles of debug drawing
+ * 'shape' is used for tested shapes, 'overlap' for overlapping ones, 'point' for intersection and contact points,
+ * 'normal' for normals and rays, 'bounds' for bounding boxes, 'label' for texts and 'grid' for grid lines.
+ */
+interface DebugDrawStyles {
+    shape: Draw.Style,
+    overlap: Draw.Style,
+    point: Draw.Style,
+    normal: Draw.Style,
+    bounds: Draw.Style,
+    label: Draw.Style,
+    grid: Draw.Style
+}
+
+/**
+ * Debug drawing of Collision2D results on top of a frame, shapes are circles or polygons.
+ * Sizes (point radius, normal length, label offset) are in units of the context, divide them by camera zoom
+ * to keep them constant on screen.
+ */
+class DebugDraw {
+    public ctx: Draw.Context;
+    public styles: DebugDrawStyles;
+    public showLabels: boolean;
+    public pointRadius: number;
+    public normalLength: number;
+
+    constructor(ctx: Draw.Context, styles?: Partial<DebugDrawStyles>) {
+        this.ctx = ctx;
+        this.styles = Object.assign({
+            shape: {stroke: '#3c8dbc', lineWidth: 1},
+            overlap: {fill: 'rgba(231, 76, 60, 0.3)', stroke: '#e74c3c', lineWidth: 2},
+            point: {fill: '#f39c12'},
+            normal: {stroke: '#27ae60', lineWidth: 1},
+            bounds: {stroke: '#95a5a6', lineWidth: 1, lineDash: [4, 4]},
+            label: {fill: '#2c3e50', font: '10px monospace', textBaseline: 'bottom'},
+            grid: {stroke: 'rgba(127, 127, 127, 0.25)', lineWidth: 1}
+        }, styles || {});
+        this.showLabels = true;
+        this.pointRadius = 3;
+        this.normalLength = 20;
+        return this;
+    }
+
+    /**
+     * Draws shape
+     * @param {{center: {x: number, y: number}, radius: number} | Array<{x: number, y: number}>} shape
+     * @param {boolean} highlighted Draws shape with overlap style
+     */
+    public shape(shape: { center: { x: number, y: number }, radius: number } | Array<{ x: number, y: number }>, highlighted?: boolean): DebugDraw {
+        let style: Draw.Style = highlighted ? this.styles.overlap : this.styles.shape;
+        if (Array.isArray(shape)) Draw.Polygon(this.ctx, shape, style);
+        else Draw.Circle(this.ctx, shape, style);
+        return this;
+    }
+
+    /**
+     * Tests shapes for overlap and draws them, overlapping shapes are highlighted
+     * @param {{center: {x: number, y: number}, radius: number} | Array<{x: number, y: number}>} shape1
+     * @param {{center: {x: number, y: number}, radius: number} | Array<{x: number, y: number}>} shape2
+     * @returns {boolean} True when shapes overlap
+     */
+    public overlap(shape1: { center: { x: number, y: number }, radius: number } | Array<{ x: number, y: number }>,
+                   shape2: { center: { x: number, y: number }, radius: number } | Array<{ x: number, y: number }>): boolean {
+        let overlapping: boolean;
+        if (Array.isArray(shape1)) {
+            overlapping = Array.isArray(shape2) ? Collision2D.PolygonsOverlapping(shape1, shape2) : Collision2D.CirclePolygonOverlapping(shape2, shape1);
+        } else {
+            overlapping = Array.isArray(shape2) ? Collision2D.CirclePolygonOverlapping(shape1, shape2) : Collision2D.CirclesOverlapping(shape1, shape2);
+        }
+        this.shape(shape1, overlapping).shape(shape2, overlapping);
+        return overlapping;
+    }
+
+    /**
+     * Draws intersection points (result of Collision2D intersection functions)
+     * @param {Array<{x: number, y: number}> | null} points
+     */
+    public points(points: Array<{ x: number, y: number }> | null): DebugDraw {
+        if (points === null) return this;
+        for (let point of points) {
+            Draw.Dot(this.ctx, point, this.pointRadius, this.styles.point);
+            this.label(`${point.x.toFixed(1)}, ${point.y.toFixed(1)}`, point);
+        }
+        return this;
+    }
+
+    /**
+     * Draws bounding box of shape
+     * @param {{center: {x: number, y: number}, radius: number} | Array<{x: number, y: number}>} shape
+     */
+    public bounds(shape: { center: { x: number, y: number }, radius: number } | Array<{ x: number, y: number }>): DebugDraw {
+        Draw.Bounds(this.ctx, Array.isArray(shape) ? Polygon.GetBounds(shape) : {
+            minX: shape.center.x - shape.radius, minY: shape.center.y - shape.radius,
+            maxX: shape.center.x + shape.radius, maxY: shape.center.y + shape.radius
+        }, this.styles.bounds);
+        return this;
+    }
+
+    /**
+     * Draws normal as arrow
+     * @param {{x: number, y: number}} origin
+     * @param {{x: number, y: number}} normal Unit vector
+     */
+    public normal(origin: { x: number, y: number }, normal: { x: number, y: number }): DebugDraw {
+        Draw.Arrow(this.ctx, origin, new Vector2(normal.x * this.normalLength, normal.y * this.normalLength), this.styles.normal);
+        return this;
+    }
+
+    /**
+     * Draws collision manifold: contacts, normal at each contact and penetration depth
+     * @param {Collision2D.Manifold | null} manifold
+     */
+    public manifold(manifold: Collision2D.Manifold | null): DebugDraw {
+        if (manifold === null) return this;
+        for (let contact of manifold.contacts) {
+            Draw.Dot(this.ctx, contact, this.pointRadius, this.styles.point);
+            this.normal(contact, manifold.normal);
+        }
+        if (manifold.contacts.length > 0) this.label(`depth ${manifold.depth.toFixed(2)}`, manifold.contacts[0]);
+        return this;
+    }
+
+    /**
+     * Draws ray up to hit point (or max distance) and normal of hit surface
+     * @param {Collision2D.Ray} ray
+     * @param {Collision2D.RaycastHit | null} hit
+     */
+    public raycast(ray: Collision2D.Ray, hit: Collision2D.RaycastHit | null): DebugDraw {
+        let direction: Vector2 = new Vector2(ray.direction.x, ray.direction.y).normalize();
+        //Ray without hit and limit is drawn with normal length
+        let length: number = hit !== null ? hit.distance : ray.maxDistance !== undefined && ray.maxDistance !== Infinity ? ray.maxDistance : this.normalLength;
+        Draw.LineSegment(this.ctx, [ray.origin, {x: ray.origin.x + direction.x * length, y: ray.origin.y + direction.y * length}], this.styles.normal);
+        if (hit === null) return this;
+        Draw.Dot(this.ctx, hit.point, this.pointRadius, this.styles.point);
+        this.normal(hit.point, hit.normal);
+        this.label(`${hit.distance.toFixed(2)}`, hit.point);
+        return this;
+    }
+
+    /**
+     * Draws line between closest points of distance query
+     * @param {Collision2D.DistanceResult} result
+     */
+    public distance(result: Collision2D.DistanceResult): DebugDraw {
+        Draw.LineSegment(this.ctx, [result.point1, result.point2], this.styles.bounds);
+        Draw.Dot(this.ctx, result.point1, this.pointRadius, this.styles.point);
+        Draw.Dot(this.ctx, result.point2, this.pointRadius, this.styles.point);
+        this.label(`${result.distance.toFixed(2)}`, {x: (result.point1.x + result.point2.x) / 2, y: (result.point1.y + result.point2.y) / 2});
+        return this;
+    }
+
+    /**
+     * Draws text next to position when labels are shown
+     * @param {string} text
+     * @param {{x: number, y: number}} position
+     */
+    public label(text: string, position: { x: number, y: number }): DebugDraw {
+        if (this.showLabels) Draw.Text(this.ctx, text, {x: position.x + this.pointRadius + 2, y: position.y - this.pointRadius - 2}, this.styles.label);
+        return this;
+    }
+
+    /**
+     * Draws grid covering bounds
+     * @param {{minX: number, minY: number, maxX: number, maxY: number}} bounds E.g. Camera.getVisibleRect
+     * @param {number} spacing Distance between lines
+     */
+    public grid(bounds: { minX: number, minY: number, maxX: number, maxY: number }, spacing: number): DebugDraw {
+        Draw.Grid(this.ctx, bounds, spacing, this.styles.grid);
+        return this;
+    }
+}
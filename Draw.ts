@@ -0,0 +1,291 @@
+/**
+ * SPECIFICATION
+ *
+ * 1) POINT:object = {x:number, y:number}
+ * 2) CIRCLE:object = {center: POINT, radius: number}
+ * 3) LINE SEGMENT:POINT[2] = [POINT, POINT]
+ * 4) POLYGON:POINT[x>=3] = [POINT, POINT, POINT, ...]
+ * 5) BOUNDS:object = {minX:number, minY:number, maxX:number, maxY:number}
+ * 6) Every function saves context, applies style, draws and restores context, so styles don't leak.
+ * Shape is filled when style has 'fill' and stroked when it has 'stroke' (or no 'fill').
+ */
+namespace Draw {
+
+    /**
+     * Interface of Point
+     */
+    interface Point {
+        x: number,
+        y: number,
+
+        [propName: string]: any;
+    }
+
+    /**
+     * Interface of Circle
+     */
+    interface Circle {
+        radius: number,
+        center: Point,
+
+        [propName: string]: any;
+    }
+
+    /**
+     * Part of CanvasRenderingContext2D used for drawing, any object implementing it (e.g. recording mock) can be used
+     */
+    export interface Context {
+        fillStyle: string | CanvasGradient | CanvasPattern,
+        strokeStyle: string | CanvasGradient | CanvasPattern,
+        lineWidth: number,
+        lineCap: CanvasLineCap,
+        lineJoin: CanvasLineJoin,
+        lineDashOffset: number,
+        shadowColor: string,
+        shadowBlur: number,
+        shadowOffsetX: number,
+        shadowOffsetY: number,
+        globalAlpha: number,
+        font: string,
+        textAlign: CanvasTextAlign,
+        textBaseline: CanvasTextBaseline,
+
+        save(): void;
+        restore(): void;
+        setLineDash(segments: number[]): void;
+        beginPath(): void;
+        closePath(): void;
+        moveTo(x: number, y: number): void;
+        lineTo(x: number, y: number): void;
+        arc(x: number, y: number, radius: number, startAngle: number, endAngle: number): void;
+        rect(x: number, y: number, width: number, height: number): void;
+        fill(fillRule?: CanvasFillRule): void;
+        stroke(): void;
+        fillText(text: string, x: number, y: number): void;
+    }
+
+    /**
+     * Interface of shadow
+     */
+    export interface Shadow {
+        color: string,
+        blur?: number,
+        offsetX?: number,
+        offsetY?: number
+    }
+
+    /**
+     * Interface of drawing style, missing properties keep context's current values
+     */
+    export interface Style {
+        fill?: string | CanvasGradient | CanvasPattern,
+        stroke?: string | CanvasGradient | CanvasPattern,
+        lineWidth?: number,
+        lineDash?: number[],
+        lineDashOffset?: number,
+        lineCap?: CanvasLineCap,
+        lineJoin?: CanvasLineJoin,
+        shadow?: Shadow,
+        alpha?: number,
+        font?: string,
+        textAlign?: CanvasTextAlign,
+        textBaseline?: CanvasTextBaseline
+    }
+
+    /**
+     * Sets style properties on context (context is not saved)
+     * @param {Draw.Context} ctx
+     * @param {Draw.Style} style
+     */
+    export function ApplyStyle(ctx: Context, style: Style): void {
+        if (style.fill !== undefined) ctx.fillStyle = style.fill;
+        if (style.stroke !== undefined) ctx.strokeStyle = style.stroke;
+        if (style.lineWidth !== undefined) ctx.lineWidth = style.lineWidth;
+        if (style.lineDash !== undefined) ctx.setLineDash(style.lineDash);
+        if (style.lineDashOffset !== undefined) ctx.lineDashOffset = style.lineDashOffset;
+        if (style.lineCap !== undefined) ctx.lineCap = style.lineCap;
+        if (style.lineJoin !== undefined) ctx.lineJoin = style.lineJoin;
+        if (style.alpha !== undefined) ctx.globalAlpha = style.alpha;
+        if (style.font !== undefined) ctx.font = style.font;
+        if (style.textAlign !== undefined) ctx.textAlign = style.textAlign;
+        if (style.textBaseline !== undefined) ctx.textBaseline = style.textBaseline;
+        if (style.shadow !== undefined) {
+            ctx.shadowColor = style.shadow.color;
+            ctx.shadowBlur = style.shadow.blur || 0;
+            ctx.shadowOffsetX = style.shadow.offsetX || 0;
+            ctx.shadowOffsetY = style.shadow.offsetY || 0;
+        }
+    }
+
+    /**
+     * Draws polygon
+     * @param {Draw.Context} ctx
+     * @param {Draw.Point[]} polygon Array of points
+     * @param {Draw.Style} style
+     */
+    export function Polygon(ctx: Context, polygon: Point[], style?: Style): void {
+        _Paint(ctx, style || {}, () => _TracePolygon(ctx, polygon));
+    }
+
+    /**
+     * Draws polygons as one shape filled with even-odd rule, so holes (e.g. from PolygonBoolean) stay empty
+     * @param {Draw.Context} ctx
+     * @param {Draw.Point[][]} polygons Array of polygons
+     * @param {Draw.Style} style
+     */
+    export function Polygons(ctx: Context, polygons: Point[][], style?: Style): void {
+        _Paint(ctx, style || {}, () => {
+            for (let polygon of polygons) _TracePolygon(ctx, polygon);
+        }, 'evenodd');
+    }
+
+    /**
+     * Draws circle
+     * @param {Draw.Context} ctx
+     * @param {Draw.Circle} circle Object with 'center':Point and 'radius':number property
+     * @param {Draw.Style} style
+     */
+    export function Circle(ctx: Context, circle: Circle, style?: Style): void {
+        _Paint(ctx, style || {}, () => {
+            ctx.moveTo(circle.center.x + circle.radius, circle.center.y);
+            ctx.arc(circle.center.x, circle.center.y, circle.radius, 0, 2 * Math.PI);
+        });
+    }
+
+    /**
+     * Draws line segment, it is only stroked
+     * @param {Draw.Context} ctx
+     * @param {Draw.Point[]} line Array with two points
+     * @param {Draw.Style} style
+     */
+    export function LineSegment(ctx: Context, line: Point[], style?: Style): void {
+        _Paint(ctx, _StrokeOnly(style || {}), () => {
+            ctx.moveTo(line[0].x, line[0].y);
+            ctx.lineTo(line[1].x, line[1].y);
+        });
+    }
+
+    /**
+     * Draws point as filled dot
+     * @param {Draw.Context} ctx
+     * @param {Draw.Point} point
+     * @param {number} radius (default 3)
+     * @param {Draw.Style} style
+     */
+    export function Dot(ctx: Context, point: Point, radius?: number, style?: Style): void {
+        let r: number = radius === undefined ? 3 : radius;
+        let s: Style = style || {};
+        _Paint(ctx, s.fill === undefined && s.stroke !== undefined ? Object.assign({}, s, {fill: s.stroke, stroke: undefined}) : s, () => {
+            ctx.moveTo(point.x + r, point.y);
+            ctx.arc(point.x, point.y, r, 0, 2 * Math.PI);
+        }, 'nonzero', true);
+    }
+
+    /**
+     * Draws vector as arrow starting at origin
+     * @param {Draw.Context} ctx
+     * @param {Draw.Point} origin Start of arrow
+     * @param {Vector2} vector Direction and length of arrow
+     * @param {Draw.Style} style Arrow head is filled with 'stroke' color
+     * @param {number} headSize Length of arrow head (default 8, at most half of arrow length)
+     */
+    export function Arrow(ctx: Context, origin: Point, vector: Vector2, style?: Style, headSize?: number): void {
+        let length: number = vector.length();
+        if (length === 0) return;
+        let head: number = Math.min(headSize === undefined ? 8 : headSize, length / 2);
+        let tip: Point = {x: origin.x + vector.x, y: origin.y + vector.y};
+        let dx: number = vector.x / length, dy: number = vector.y / length;
+        let s: Style = _StrokeOnly(style || {});
+        _Paint(ctx, s, () => {
+            ctx.moveTo(origin.x, origin.y);
+            ctx.lineTo(tip.x - dx * head, tip.y - dy * head);
+        });
+        _Paint(ctx, {fill: s.stroke, alpha: s.alpha, shadow: s.shadow}, () => {
+            if (s.stroke === undefined) ctx.fillStyle = ctx.strokeStyle;
+            ctx.moveTo(tip.x, tip.y);
+            ctx.lineTo(tip.x - dx * head - dy * head / 2, tip.y - dy * head + dx * head / 2);
+            ctx.lineTo(tip.x - dx * head + dy * head / 2, tip.y - dy * head - dx * head / 2);
+            ctx.closePath();
+        }, 'nonzero', true);
+    }
+
+    /**
+     * Draws bounding box
+     * @param {Draw.Context} ctx
+     * @param {{minX: number, minY: number, maxX: number, maxY: number}} bounds
+     * @param {Draw.Style} style
+     */
+    export function Bounds(ctx: Context, bounds: { minX: number, minY: number, maxX: number, maxY: number }, style?: Style): void {
+        _Paint(ctx, style || {}, () => ctx.rect(bounds.minX, bounds.minY, bounds.maxX - bounds.minX, bounds.maxY - bounds.minY));
+    }
+
+    /**
+     * Draws text, it is filled with 'fill' (or 'stroke') color
+     * @param {Draw.Context} ctx
+     * @param {string} text
+     * @param {Draw.Point} position
+     * @param {Draw.Style} style
+     */
+    export function Text(ctx: Context, text: string, position: Point, style?: Style): void {
+        let s: Style = style || {};
+        ctx.save();
+        ApplyStyle(ctx, s);
+        if (s.fill === undefined && s.stroke !== undefined) ctx.fillStyle = s.stroke;
+        ctx.fillText(text, position.x, position.y);
+        ctx.restore();
+    }
+
+    /**
+     * Draws grid lines covering bounds, lines are aligned to multiples of spacing
+     * @param {Draw.Context} ctx
+     * @param {{minX: number, minY: number, maxX: number, maxY: number}} bounds Area covered by grid (e.g. Camera.getVisibleRect)
+     * @param {number} spacing Distance between lines
+     * @param {Draw.Style} style
+     */
+    export function Grid(ctx: Context, bounds: { minX: number, minY: number, maxX: number, maxY: number }, spacing: number, style?: Style): void {
+        if (spacing <= 0) throw new Error('Grid spacing must be positive');
+        _Paint(ctx, _StrokeOnly(style || {}), () => {
+            for (let x = Math.ceil(bounds.minX / spacing) * spacing; x <= bounds.maxX; x += spacing) {
+                ctx.moveTo(x, bounds.minY);
+                ctx.lineTo(x, bounds.maxY);
+            }
+            for (let y = Math.ceil(bounds.minY / spacing) * spacing; y <= bounds.maxY; y += spacing) {
+                ctx.moveTo(bounds.minX, y);
+                ctx.lineTo(bounds.maxX, y);
+            }
+        });
+    }
+
+    /**
+     * Saves context, applies style, builds path, fills and strokes it and restores context
+     * @private
+     */
+    function _Paint(ctx: Context, style: Style, trace: () => void, fillRule?: CanvasFillRule, fillOnly?: boolean): void {
+        ctx.save();
+        ApplyStyle(ctx, style);
+        ctx.beginPath();
+        trace();
+        if (style.fill !== undefined || fillOnly) ctx.fill(fillRule || 'nonzero');
+        if (!fillOnly && (style.stroke !== undefined || style.fill === undefined)) ctx.stroke();
+        ctx.restore();
+    }
+
+    /**
+     * Adds closed polygon to current path
+     * @private
+     */
+    function _TracePolygon(ctx: Context, polygon: Point[]): void {
+        if (polygon.length === 0) return;
+        ctx.moveTo(polygon[0].x, polygon[0].y);
+        for (let i = 1; i < polygon.length; i++) ctx.lineTo(polygon[i].x, polygon[i].y);
+        ctx.closePath();
+    }
+
+    /**
+     * Returns style without fill, used by lines
+     * @private
+     */
+    function _StrokeOnly(style: Style): Style {
+        return style.fill === undefined ? style : Object.assign({}, style, {fill: undefined, stroke: style.stroke !== undefined ? style.stroke : style.fill});
+    }
+}
@@ -0,0 +1,195 @@
+/**
+ * SPECIFICATION
+ *
+ * 1) EASING:function = (t:number) => number, maps progress t from range [0, 1] to eased progress
+ * (0 for t = 0 and 1 for t = 1, back and elastic curves overshoot in between).
+ * 2) In - slow start, Out - slow end, InOut - slow start and end.
+ */
+namespace Easing {
+
+    /**
+     * Type of easing function
+     */
+    export type EasingFunction = (t: number) => number;
+
+    export function Linear(t: number): number {
+        return t;
+    }
+
+    export function QuadIn(t: number): number {
+        return t * t;
+    }
+
+    export function QuadOut(t: number): number {
+        return t * (2 - t);
+    }
+
+    export function QuadInOut(t: number): number {
+        return t < 0.5 ? 2 * t * t : 1 - 2 * (1 - t) * (1 - t);
+    }
+
+    export function CubicIn(t: number): number {
+        return t * t * t;
+    }
+
+    export function CubicOut(t: number): number {
+        return 1 - Math.pow(1 - t, 3);
+    }
+
+    export function CubicInOut(t: number): number {
+        return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(2 - 2 * t, 3) / 2;
+    }
+
+    export function QuartIn(t: number): number {
+        return t * t * t * t;
+    }
+
+    export function QuartOut(t: number): number {
+        return 1 - Math.pow(1 - t, 4);
+    }
+
+    export function QuartInOut(t: number): number {
+        return t < 0.5 ? 8 * Math.pow(t, 4) : 1 - Math.pow(2 - 2 * t, 4) / 2;
+    }
+
+    export function QuintIn(t: number): number {
+        return Math.pow(t, 5);
+    }
+
+    export function QuintOut(t: number): number {
+        return 1 - Math.pow(1 - t, 5);
+    }
+
+    export function QuintInOut(t: number): number {
+        return t < 0.5 ? 16 * Math.pow(t, 5) : 1 - Math.pow(2 - 2 * t, 5) / 2;
+    }
+
+    export function SineIn(t: number): number {
+        return 1 - Math.cos(t * Math.PI / 2);
+    }
+
+    export function SineOut(t: number): number {
+        return Math.sin(t * Math.PI / 2);
+    }
+
+    export function SineInOut(t: number): number {
+        return (1 - Math.cos(Math.PI * t)) / 2;
+    }
+
+    export function ExpoIn(t: number): number {
+        return t === 0 ? 0 : Math.pow(2, 10 * t - 10);
+    }
+
+    export function ExpoOut(t: number): number {
+        return t === 1 ? 1 : 1 - Math.pow(2, -10 * t);
+    }
+
+    export function ExpoInOut(t: number): number {
+        if (t === 0 || t === 1) return t;
+        return t < 0.5 ? Math.pow(2, 20 * t - 10) / 2 : 1 - Math.pow(2, 10 - 20 * t) / 2;
+    }
+
+    export function CircIn(t: number): number {
+        return 1 - Math.sqrt(1 - t * t);
+    }
+
+    export function CircOut(t: number): number {
+        return Math.sqrt(1 - (t - 1) * (t - 1));
+    }
+
+    export function CircInOut(t: number): number {
+        return t < 0.5 ? (1 - Math.sqrt(1 - 4 * t * t)) / 2 : (Math.sqrt(1 - Math.pow(2 - 2 * t, 2)) + 1) / 2;
+    }
+
+    export function BackIn(t: number): number {
+        return (_BACK + 1) * t * t * t - _BACK * t * t;
+    }
+
+    export function BackOut(t: number): number {
+        return 1 - BackIn(1 - t);
+    }
+
+    export function BackInOut(t: number): number {
+        const s: number = _BACK * 1.525;
+        return t < 0.5
+            ? (Math.pow(2 * t, 2) * ((s + 1) * 2 * t - s)) / 2
+            : (Math.pow(2 * t - 2, 2) * ((s + 1) * (2 * t - 2) + s) + 2) / 2;
+    }
+
+    export function ElasticIn(t: number): number {
+        if (t === 0 || t === 1) return t;
+        return -Math.pow(2, 10 * t - 10) * Math.sin((10 * t - 10.75) * (2 * Math.PI) / 3);
+    }
+
+    export function ElasticOut(t: number): number {
+        return 1 - ElasticIn(1 - t);
+    }
+
+    export function ElasticInOut(t: number): number {
+        return t < 0.5 ? ElasticIn(2 * t) / 2 : 1 - ElasticIn(2 - 2 * t) / 2;
+    }
+
+    export function BounceOut(t: number): number {
+        const n: number = 7.5625, d: number = 2.75;
+        if (t < 1 / d) return n * t * t;
+        if (t < 2 / d) return n * (t -= 1.5 / d) * t + 0.75;
+        if (t < 2.5 / d) return n * (t -= 2.25 / d) * t + 0.9375;
+        return n * (t -= 2.625 / d) * t + 0.984375;
+    }
+
+    export function BounceIn(t: number): number {
+        return 1 - BounceOut(1 - t);
+    }
+
+    export function BounceInOut(t: number): number {
+        return t < 0.5 ? (1 - BounceOut(1 - 2 * t)) / 2 : (1 + BounceOut(2 * t - 1)) / 2;
+    }
+
+    /**
+     * Creates easing defined by cubic bezier curve from (0, 0) to (1, 1), the same as CSS cubic-bezier()
+     * @param {number} x1 X of the first control point (range [0, 1])
+     * @param {number} y1 Y of the first control point
+     * @param {number} x2 X of the second control point (range [0, 1])
+     * @param {number} y2 Y of the second control point
+     * @returns {Easing.EasingFunction}
+     */
+    export function CubicBezier(x1: number, y1: number, x2: number, y2: number): EasingFunction {
+        //https://github.com/WebKit/WebKit/blob/main/Source/WebCore/platform/graphics/UnitBezier.h
+        if (x1 < 0 || x1 > 1 || x2 < 0 || x2 > 1) throw new Error('Control points x have to be in range [0, 1]');
+        let cx: number = 3 * x1, bx: number = 3 * (x2 - x1) - cx, ax: number = 1 - cx - bx;
+        let cy: number = 3 * y1, by: number = 3 * (y2 - y1) - cy, ay: number = 1 - cy - by;
+        const sampleX = (s: number): number => ((ax * s + bx) * s + cx) * s;
+        const sampleY = (s: number): number => ((ay * s + by) * s + cy) * s;
+        const derivativeX = (s: number): number => (3 * ax * s + 2 * bx) * s + cx;
+
+        //Curve parameter for given x, Newton's method falling back to bisection
+        const solve = (x: number): number => {
+            let s: number = x;
+            for (let i = 0; i < 8; i++) {
+                let error: number = sampleX(s) - x;
+                if (Math.abs(error) < 1e-7) return s;
+                let d: number = derivativeX(s);
+                if (Math.abs(d) < 1e-6) break;
+                s -= error / d;
+            }
+            let low = 0, high = 1;
+            s = x;
+            while (high - low > 1e-7) {
+                if (sampleX(s) < x) low = s;
+                else high = s;
+                s = (low + high) / 2;
+            }
+            return s;
+        };
+        return (t: number): number => {
+            if (t <= 0 || t >= 1) return t <= 0 ? 0 : 1;
+            return sampleY(solve(t));
+        };
+    }
+
+    /**
+     * Overshoot of back easing curves
+     * @private
+     */
+    const _BACK: number = 1.70158;
+}
@@ -0,0 +1,256 @@
+/**
+ * Information passed to update and render callbacks, times are in milliseconds.
+ * 'delta' is fixed step in updates and scaled frame time in renders, 'elapsed' is total scaled game time,
+ * 'frame' counts updates (or rendered frames) and 'alpha' tells how far between two updates the render is (0 in updates).
+ */
+interface FrameInfo {
+    delta: number,
+    elapsed: number,
+    frame: number,
+    alpha: number
+}
+
+/**
+ * Source of time and frames, requestAnimationFrame and performance.now by default
+ */
+interface GameLoopScheduler {
+    now: () => number,
+    request: (callback: (time: number) => void) => number,
+    cancel: (id: number) => void
+}
+
+/**
+ * Options of game loop
+ * 'fixedStep' is duration of one update (default 1000 / 60), 'maxFrameTime' limits time simulated after long frame
+ * or inactive tab (default 250) and 'scheduler' replaces requestAnimationFrame, e.g. in tests.
+ */
+interface GameLoopOptions {
+    fixedStep?: number,
+    maxFrameTime?: number,
+    scheduler?: GameLoopScheduler
+}
+
+/**
+ * Frame scheduler with fixed-timestep updates and variable-rate rendering.
+ * Frame time is accumulated and consumed by fixed updates, renders get interpolation alpha of remaining time.
+ */
+class GameLoop {
+    public timeScale: number;
+    public readonly fixedStep: number;
+    public readonly maxFrameTime: number;
+    private _scheduler: GameLoopScheduler;
+    private _updates: Array<{ callback: (info: FrameInfo) => void, priority: number }>;
+    private _renders: Array<{ callback: (info: FrameInfo) => void, priority: number }>;
+    private _running: boolean;
+    private _paused: boolean;
+    private _requestId: number;
+    private _lastTime: number;
+    private _accumulator: number;
+    private _elapsed: number;
+    private _updateFrame: number;
+    private _renderFrame: number;
+
+    constructor(options?: GameLoopOptions) {
+        let opts: GameLoopOptions = options || {};
+        this.timeScale = 1;
+        this.fixedStep = opts.fixedStep || 1000 / 60;
+        this.maxFrameTime = opts.maxFrameTime || 250;
+        this._scheduler = opts.scheduler || GameLoop.DefaultScheduler();
+        this._updates = [];
+        this._renders = [];
+        this._running = false;
+        this._paused = false;
+        this._requestId = 0;
+        this._lastTime = 0;
+        this._accumulator = 0;
+        this._elapsed = 0;
+        this._updateFrame = 0;
+        this._renderFrame = 0;
+        return this;
+    }
+
+    /**
+     * Creates scheduler using requestAnimationFrame (paused by browser in background tabs)
+     * @returns {GameLoopScheduler}
+     */
+    public static DefaultScheduler(): GameLoopScheduler {
+        return {
+            now: () => performance.now(),
+            request: callback => requestAnimationFrame(callback),
+            cancel: id => cancelAnimationFrame(id)
+        };
+    }
+
+    /**
+     * Creates scheduler driven manually, advance runs requested frames after given time
+     * @returns {GameLoopScheduler & {advance: (time: number) => void}}
+     */
+    public static ManualScheduler(): GameLoopScheduler & { advance: (time: number) => void } {
+        let now = 0, nextId = 1;
+        let pending: Array<{ id: number, callback: (time: number) => void }> = [];
+        return {
+            now: () => now,
+            request: callback => {
+                pending.push({id: nextId, callback: callback});
+                return nextId++;
+            },
+            cancel: id => {
+                pending = pending.filter(entry => entry.id !== id);
+            },
+            advance: (time: number) => {
+                now += time;
+                let frame = pending;
+                pending = [];
+                for (let entry of frame) entry.callback(now);
+            }
+        };
+    }
+
+    /**
+     * Adds fixed-timestep update callback, callbacks with lower priority run first
+     * @param {(info: FrameInfo) => void} callback
+     * @param {number} priority (default 0)
+     */
+    public addUpdate(callback: (info: FrameInfo) => void, priority?: number): GameLoop {
+        this._insert(this._updates, callback, priority || 0);
+        return this;
+    }
+
+    /**
+     * Adds render callback called once per frame, callbacks with lower priority run first
+     * @param {(info: FrameInfo) => void} callback
+     * @param {number} priority (default 0)
+     */
+    public addRender(callback: (info: FrameInfo) => void, priority?: number): GameLoop {
+        this._insert(this._renders, callback, priority || 0);
+        return this;
+    }
+
+    /**
+     * Removes update or render callback
+     * @param {(info: FrameInfo) => void} callback
+     */
+    public remove(callback: (info: FrameInfo) => void): GameLoop {
+        this._updates = this._updates.filter(system => system.callback !== callback);
+        this._renders = this._renders.filter(system => system.callback !== callback);
+        return this;
+    }
+
+    /**
+     * Starts requesting frames
+     */
+    public start(): GameLoop {
+        if (this._running) return this;
+        this._running = true;
+        this._lastTime = this._scheduler.now();
+        this._requestId = this._scheduler.request(time => this._tick(time));
+        return this;
+    }
+
+    /**
+     * Stops requesting frames, accumulated time is dropped
+     */
+    public stop(): GameLoop {
+        if (!this._running) return this;
+        this._running = false;
+        this._scheduler.cancel(this._requestId);
+        this._accumulator = 0;
+        return this;
+    }
+
+    /**
+     * Freezes game time, frames are still rendered
+     */
+    public pause(): GameLoop {
+        this._paused = true;
+        return this;
+    }
+
+    /**
+     * Unfreezes game time
+     */
+    public resume(): GameLoop {
+        this._paused = false;
+        return this;
+    }
+
+    /**
+     * Runs given number of fixed updates followed by render, intended for paused loop
+     * @param {number} count Number of updates (default 1)
+     */
+    public step(count?: number): GameLoop {
+        for (let i = 0; i < (count === undefined ? 1 : count); i++) this._update();
+        this._render(0);
+        return this;
+    }
+
+    public isRunning(): boolean {
+        return this._running;
+    }
+
+    public isPaused(): boolean {
+        return this._paused;
+    }
+
+    /**
+     * Returns total scaled game time in milliseconds
+     * @returns {number}
+     */
+    public getElapsed(): number {
+        return this._elapsed;
+    }
+
+    /**
+     * Handles frame requested from scheduler
+     * @private
+     */
+    private _tick(time: number): void {
+        if (!this._running) return;
+        this._requestId = this._scheduler.request(next => this._tick(next));
+
+        //Long frames (or inactive tab) are clamped, so simulation doesn't try to catch up forever
+        let frameTime: number = Math.min(Math.max(time - this._lastTime, 0), this.maxFrameTime);
+        this._lastTime = time;
+        let scaled: number = this._paused ? 0 : frameTime * this.timeScale;
+        this._accumulator += scaled;
+        while (this._accumulator >= this.fixedStep) {
+            this._accumulator -= this.fixedStep;
+            this._update();
+        }
+        this._render(scaled);
+    }
+
+    /**
+     * Runs one fixed update of all systems
+     * @private
+     */
+    private _update(): void {
+        this._elapsed += this.fixedStep;
+        let info: FrameInfo = {delta: this.fixedStep, elapsed: this._elapsed, frame: this._updateFrame++, alpha: 0};
+        for (let system of this._updates.slice()) system.callback(info);
+    }
+
+    /**
+     * Runs all render callbacks
+     * @private
+     */
+    private _render(delta: number): void {
+        let info: FrameInfo = {
+            delta: delta,
+            elapsed: this._elapsed,
+            frame: this._renderFrame++,
+            alpha: this._accumulator / this.fixedStep
+        };
+        for (let system of this._renders.slice()) system.callback(info);
+    }
+
+    /**
+     * Inserts callback keeping list sorted by priority (stable for equal priorities)
+     * @private
+     */
+    private _insert(list: Array<{ callback: (info: FrameInfo) => void, priority: number }>, callback: (info: FrameInfo) => void, priority: number): void {
+        let index: number = list.length;
+        while (index > 0 && list[index - 1].priority > priority) index--;
+        list.splice(index, 0, {callback: callback, priority: priority});
+    }
+}
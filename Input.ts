@@ -0,0 +1,408 @@
+/**
+ * Input event in canvas drawing coordinates, used for synthetic input (tests, replays) and by DOM listeners.
+ * Key events use KeyboardEvent.code values, 'time' is in milliseconds (performance.now() when omitted).
+ */
+type SyntheticInput =
+    { type: 'pointerdown' | 'pointermove' | 'pointerup' | 'pointercancel', id?: number, x: number, y: number, button?: number, pointerType?: string, time?: number } |
+    { type: 'keydown' | 'keyup', code: string, time?: number } |
+    { type: 'wheel', deltaX?: number, deltaY: number, time?: number };
+
+/**
+ * Recognized gesture
+ * 'position' is current pointer position (center of contacts for pinch), 'start' is where gesture started,
+ * 'delta' is movement since last drag event and 'scale' is ratio of pinch distance to its initial distance.
+ */
+interface InputGesture {
+    type: 'tap' | 'doubletap' | 'dragstart' | 'drag' | 'dragend' | 'pinchstart' | 'pinch' | 'pinchend',
+    position: Vector2,
+    start: Vector2,
+    delta: Vector2,
+    scale: number
+}
+
+/**
+ * Options of input
+ * 'keyboardTarget' receives keyboard listeners (default window), 'dragThreshold' is distance in pixels
+ * turning press into drag (default 8), 'tapTime' is maximum duration of tap (default 250) and
+ * 'doubleTapTime' maximum time between taps of double tap (default 300).
+ */
+interface InputOptions {
+    keyboardTarget?: EventTarget,
+    dragThreshold?: number,
+    tapTime?: number,
+    doubleTapTime?: number
+}
+
+/**
+ * Input manager attached to canvas, collects pointer, touch, keyboard and wheel events into polled state.
+ * Per-frame state (pressed, released, wheel, gestures) is collected between two calls of update,
+ * so update should be called once at the end of each frame.
+ */
+class Input {
+    public pointer: Vector2;
+    public wheelDelta: Vector2;
+    public gestures: InputGesture[];
+    private _canvas: Canvas;
+    private _options: InputOptions;
+    private _down: Set<string>;
+    private _pressed: Set<string>;
+    private _released: Set<string>;
+    private _contacts: Map<number, { position: Vector2, start: Vector2, startTime: number, pointerType: string, dragging: boolean, pinched: boolean }>;
+    private _lastTap: { position: Vector2, time: number } | null;
+    private _pinchDistance: number;
+    private _bindings: Map<string, string[]>;
+    private _listeners: Map<string, Array<(gesture: InputGesture) => void>>;
+    private _detach: Array<() => void>;
+
+    constructor(canvas: Canvas, options?: InputOptions) {
+        this.pointer = new Vector2();
+        this.wheelDelta = new Vector2();
+        this.gestures = [];
+        this._canvas = canvas;
+        this._options = options || {};
+        this._down = new Set<string>();
+        this._pressed = new Set<string>();
+        this._released = new Set<string>();
+        this._contacts = new Map();
+        this._lastTap = null;
+        this._pinchDistance = 0;
+        this._bindings = new Map<string, string[]>();
+        this._listeners = new Map<string, Array<(gesture: InputGesture) => void>>();
+        this._detach = [];
+        this._attach();
+        return this;
+    }
+
+    /**
+     * Handles synthetic input event
+     * @param {SyntheticInput} event
+     */
+    public inject(event: SyntheticInput): Input {
+        let time: number = event.time === undefined ? performance.now() : event.time;
+        switch (event.type) {
+            case 'keydown':
+                if (!this._down.has(event.code)) this._press(event.code);
+                break;
+            case 'keyup':
+                this._release(event.code);
+                break;
+            case 'wheel':
+                this.wheelDelta.x += event.deltaX || 0;
+                this.wheelDelta.y += event.deltaY;
+                break;
+            case 'pointerdown':
+                this._pointerDown(event.id || 0, new Vector2(event.x, event.y), event.button || 0, event.pointerType || 'mouse', time);
+                break;
+            case 'pointermove':
+                this._pointerMove(event.id || 0, new Vector2(event.x, event.y));
+                break;
+            case 'pointerup':
+            case 'pointercancel':
+                this._pointerUp(event.id || 0, new Vector2(event.x, event.y), event.button || 0, time, event.type === 'pointercancel');
+                break;
+        }
+        return this;
+    }
+
+    /**
+     * Clears per-frame state, call once at the end of each frame
+     */
+    public update(): Input {
+        this._pressed.clear();
+        this._released.clear();
+        this.wheelDelta.x = 0;
+        this.wheelDelta.y = 0;
+        this.gestures = [];
+        return this;
+    }
+
+    /**
+     * Checks if key (KeyboardEvent.code) or pointer button ('Pointer0', 'Pointer1', ...) is held
+     * @param {string} code
+     * @returns {boolean}
+     */
+    public isDown(code: string): boolean {
+        return this._down.has(code);
+    }
+
+    /**
+     * Checks if key or pointer button was pressed this frame
+     * @param {string} code
+     * @returns {boolean}
+     */
+    public wasPressed(code: string): boolean {
+        return this._pressed.has(code);
+    }
+
+    /**
+     * Checks if key or pointer button was released this frame
+     * @param {string} code
+     * @returns {boolean}
+     */
+    public wasReleased(code: string): boolean {
+        return this._released.has(code);
+    }
+
+    /**
+     * Returns active touch (or pen, mouse) contacts
+     * @returns {Array<{id: number, position: Vector2, start: Vector2}>}
+     */
+    public getContacts(): Array<{ id: number, position: Vector2, start: Vector2 }> {
+        let toReturn: Array<{ id: number, position: Vector2, start: Vector2 }> = [];
+        this._contacts.forEach((contact, id) => toReturn.push({id: id, position: contact.position.clone(), start: contact.start.clone()}));
+        return toReturn;
+    }
+
+    /**
+     * Binds action to keys and pointer buttons, e.g. bind('jump', ['Space', 'KeyW', 'Pointer0'])
+     * @param {string} action
+     * @param {string[]} codes
+     */
+    public bind(action: string, codes: string[]): Input {
+        this._bindings.set(action, codes.slice());
+        return this;
+    }
+
+    /**
+     * Removes bindings of action
+     * @param {string} action
+     */
+    public unbind(action: string): Input {
+        this._bindings.delete(action);
+        return this;
+    }
+
+    public isActionDown(action: string): boolean {
+        return (this._bindings.get(action) || []).some(code => this._down.has(code));
+    }
+
+    public wasActionPressed(action: string): boolean {
+        return (this._bindings.get(action) || []).some(code => this._pressed.has(code));
+    }
+
+    public wasActionReleased(action: string): boolean {
+        let codes: string[] = this._bindings.get(action) || [];
+        //Action is released only when none of its bindings stays held
+        return codes.some(code => this._released.has(code)) && !codes.some(code => this._down.has(code));
+    }
+
+    /**
+     * Adds callback called immediately when gesture is recognized
+     * @param {string} type Gesture type
+     * @param {(gesture: InputGesture) => void} callback
+     */
+    public on(type: InputGesture['type'], callback: (gesture: InputGesture) => void): Input {
+        let list = this._listeners.get(type) || [];
+        list.push(callback);
+        this._listeners.set(type, list);
+        return this;
+    }
+
+    /**
+     * Removes gesture callback
+     * @param {string} type Gesture type
+     * @param {(gesture: InputGesture) => void} callback
+     */
+    public off(type: InputGesture['type'], callback: (gesture: InputGesture) => void): Input {
+        this._listeners.set(type, (this._listeners.get(type) || []).filter(listener => listener !== callback));
+        return this;
+    }
+
+    /**
+     * Removes DOM listeners
+     */
+    public dispose(): void {
+        for (let detach of this._detach) detach();
+        this._detach = [];
+    }
+
+    /**
+     * Adds DOM listeners translating events into synthetic input
+     * @private
+     */
+    private _attach(): void {
+        let element: HTMLCanvasElement = this._canvas.DOMElement;
+        if (typeof element.addEventListener !== 'function') return;
+        const listen = <K extends keyof WindowEventMap>(target: EventTarget, type: K, handler: (evt: WindowEventMap[K]) => void, passive?: boolean): void => {
+            //Event type determines event interface, same as in addEventListener of window
+            const listener = (evt: Event): void => handler(<WindowEventMap[K]>evt);
+            target.addEventListener(type, listener, {passive: passive !== false});
+            this._detach.push(() => target.removeEventListener(type, listener));
+        };
+        const position = (evt: { clientX: number, clientY: number }) => this._canvas.getMousePosition(<MouseEvent>evt);
+
+        if (typeof PointerEvent !== 'undefined') {
+            for (let type of <Array<'pointerdown' | 'pointermove' | 'pointerup' | 'pointercancel'>>['pointerdown', 'pointermove', 'pointerup', 'pointercancel']) {
+                listen(element, type, (evt: PointerEvent) => {
+                    let p = position(evt);
+                    if (type === 'pointerdown' && element.setPointerCapture) element.setPointerCapture(evt.pointerId);
+                    this.inject({type: type, id: evt.pointerId, x: p.x, y: p.y, button: evt.button, pointerType: evt.pointerType, time: evt.timeStamp});
+                });
+            }
+            //Browser scrolling and zooming would steal touch gestures
+            element.style.touchAction = 'none';
+        } else {
+            //Fallback for browsers without pointer events
+            listen(element, 'mousedown', (evt: MouseEvent) => this.inject({type: 'pointerdown', ...position(evt), button: evt.button, time: evt.timeStamp}));
+            listen(window, 'mousemove', (evt: MouseEvent) => this.inject({type: 'pointermove', ...position(evt), time: evt.timeStamp}));
+            listen(window, 'mouseup', (evt: MouseEvent) => this.inject({type: 'pointerup', ...position(evt), button: evt.button, time: evt.timeStamp}));
+            const touches = (type: 'pointerdown' | 'pointermove' | 'pointerup' | 'pointercancel') => (evt: TouchEvent) => {
+                evt.preventDefault();
+                for (let i = 0; i < evt.changedTouches.length; i++) {
+                    let touch: Touch = evt.changedTouches[i];
+                    this.inject({type: type, id: touch.identifier + 1, ...position(touch), pointerType: 'touch', time: evt.timeStamp});
+                }
+            };
+            listen(element, 'touchstart', touches('pointerdown'), false);
+            listen(element, 'touchmove', touches('pointermove'), false);
+            listen(element, 'touchend', touches('pointerup'), false);
+            listen(element, 'touchcancel', touches('pointercancel'), false);
+        }
+
+        listen(element, 'wheel', (evt: WheelEvent) => {
+            evt.preventDefault();
+            //Line and page deltas are converted to pixels
+            let scale: number = evt.deltaMode === 1 ? 16 : evt.deltaMode === 2 ? this._canvas.height : 1;
+            this.inject({type: 'wheel', deltaX: evt.deltaX * scale, deltaY: evt.deltaY * scale, time: evt.timeStamp});
+        }, false);
+        listen(element, 'contextmenu', (evt: Event) => evt.preventDefault(), false);
+
+        let keyboard: EventTarget = this._options.keyboardTarget || window;
+        listen(keyboard, 'keydown', (evt: KeyboardEvent) => this.inject({type: 'keydown', code: evt.code, time: evt.timeStamp}));
+        listen(keyboard, 'keyup', (evt: KeyboardEvent) => this.inject({type: 'keyup', code: evt.code, time: evt.timeStamp}));
+        //Keys held while window loses focus would never be released
+        listen(window, 'blur', () => this._down.forEach(code => this._release(code)));
+    }
+
+    /**
+     * Marks key or button as held
+     * @private
+     */
+    private _press(code: string): void {
+        this._down.add(code);
+        this._pressed.add(code);
+    }
+
+    /**
+     * Marks key or button as released
+     * @private
+     */
+    private _release(code: string): void {
+        if (!this._down.delete(code)) return;
+        this._released.add(code);
+    }
+
+    /**
+     * Handles pointer press
+     * @private
+     */
+    private _pointerDown(id: number, position: Vector2, button: number, pointerType: string, time: number): void {
+        this.pointer.copy(position);
+        //Touch and pen contacts act as the primary button
+        this._press(pointerType === 'mouse' ? 'Pointer' + button : 'Pointer0');
+        this._contacts.set(id, {position: position.clone(), start: position.clone(), startTime: time, pointerType: pointerType, dragging: false, pinched: false});
+        if (this._contacts.size === 2) {
+            //Contacts of pinch don't produce taps or drags afterwards, drag of the first contact ends here
+            this._contacts.forEach(other => {
+                if (other.dragging) this._emit('dragend', other.position, other.start, 1);
+                other.dragging = false;
+                other.pinched = true;
+            });
+            this._pinchDistance = this._pinchSpan();
+            let center: Vector2 = this._pinchCenter();
+            this._emit('pinchstart', center, center, 1);
+        }
+    }
+
+    /**
+     * Handles pointer movement, recognizes drag and pinch
+     * @private
+     */
+    private _pointerMove(id: number, position: Vector2): void {
+        this.pointer.copy(position);
+        let contact = this._contacts.get(id);
+        if (contact === undefined) return;
+        let delta: Vector2 = Vector2.Subtract(position, contact.position);
+        contact.position.copy(position);
+
+        if (this._contacts.size >= 2) {
+            let center: Vector2 = this._pinchCenter();
+            this._emit('pinch', center, center, this._pinchDistance > 0 ? this._pinchSpan() / this._pinchDistance : 1);
+            return;
+        }
+        if (contact.pinched) return;
+        if (!contact.dragging && contact.start.distanceTo(position) >= (this._options.dragThreshold || 8)) {
+            contact.dragging = true;
+            this._emit('dragstart', position, contact.start, 1, Vector2.Subtract(position, contact.start));
+        } else if (contact.dragging) this._emit('drag', position, contact.start, 1, delta);
+    }
+
+    /**
+     * Handles pointer release, recognizes end of drag, tap and double tap
+     * @private
+     */
+    private _pointerUp(id: number, position: Vector2, button: number, time: number, cancelled: boolean): void {
+        this.pointer.copy(position);
+        let contact = this._contacts.get(id);
+        if (contact === undefined) {
+            this._release('Pointer' + button);
+            return;
+        }
+        let pinching: boolean = this._contacts.size === 2;
+        let center: Vector2 = pinching ? this._pinchCenter() : position;
+        this._contacts.delete(id);
+        if (contact.pointerType === 'mouse') this._release('Pointer' + button);
+        else if (this._contacts.size === 0) this._release('Pointer0');
+
+        if (pinching) this._emit('pinchend', center, center, this._pinchDistance > 0 ? this._pinchSpan(contact.position) / this._pinchDistance : 1);
+        else if (contact.dragging) this._emit('dragend', position, contact.start, 1);
+        else if (!cancelled && !contact.pinched && this._contacts.size === 0 && time - contact.startTime <= (this._options.tapTime || 250)) {
+            let previous = this._lastTap;
+            if (previous !== null && time - previous.time <= (this._options.doubleTapTime || 300) &&
+                previous.position.distanceTo(position) <= (this._options.dragThreshold || 8) * 2) {
+                this._lastTap = null;
+                this._emit('doubletap', position, contact.start, 1);
+            } else {
+                this._lastTap = {position: position.clone(), time: time};
+                this._emit('tap', position, contact.start, 1);
+            }
+        }
+    }
+
+    /**
+     * Calculates distance between first two contacts, optionally including removed contact
+     * @private
+     */
+    private _pinchSpan(extra?: Vector2): number {
+        let positions: Vector2[] = [];
+        this._contacts.forEach(contact => positions.push(contact.position));
+        if (extra !== undefined) positions.push(extra);
+        return positions.length < 2 ? 0 : positions[0].distanceTo(positions[1]);
+    }
+
+    /**
+     * Calculates center of first two contacts
+     * @private
+     */
+    private _pinchCenter(): Vector2 {
+        let positions: Vector2[] = [];
+        this._contacts.forEach(contact => positions.push(contact.position));
+        return Vector2.Lerp(positions[0], positions[1] || positions[0], 0.5);
+    }
+
+    /**
+     * Stores gesture of this frame and calls its listeners
+     * @private
+     */
+    private _emit(type: InputGesture['type'], position: Vector2, start: Vector2, scale: number, delta?: Vector2): void {
+        let gesture: InputGesture = {
+            type: type,
+            position: position.clone(),
+            start: start.clone(),
+            delta: delta === undefined ? new Vector2() : delta,
+            scale: scale
+        };
+        this.gestures.push(gesture);
+        for (let listener of (this._listeners.get(type) || []).slice()) listener(gesture);
+    }
+}
@@ -1,8 +1,8 @@
 interface Math {
-    randomInt: (min: number, max: number) => number,
-    randomFloat: (min: number, max: number) => number,
+    randomInt: (min: number, max: number, random?: Random) => number,
+    randomFloat: (min: number, max: number, random?: Random) => number,
     mapLinear: (value: number, in_min: number, in_max: number, out_min: number, out_max: number) => number,
-    generateUUID: () => string;
+    generateUUID: (random?: Random) => string;
     radiansToDegrees: (value: number) => number;
     degreesToRadians: (value: number) => number;
     clamp: (value: number, min: number, max: number) => number;
@@ -13,21 +13,23 @@ interface Math {
  * Returns a random integer in a specific range
  * @param {number} min Minimum value (inclusive)
  * @param {number} max Maximum value (inclusive)
+ * @param {Random} random Seedable generator used instead of Math.random
  * @returns {number}
  */
-Math.randomInt = (min: number, max: number): number => {
+Math.randomInt = (min: number, max: number, random?: Random): number => {
     //https://stackoverflow.com/questions/1527803/generating-random-whole-numbers-in-javascript-in-a-specific-range
-    return Math.floor(Math.random() * (max - min + 1)) + min;
+    return Math.floor((random ? random.next() : Math.random()) * (max - min + 1)) + min;
 };
 
 /**
  * Returns a random floating point number in a specific range
  * @param {number} low Minimum value (inclusive)
  * @param {number} high Maximum value (inclusive)
+ * @param {Random} random Seedable generator used instead of Math.random
  * @returns {number}
  */
-Math.randomFloat = (low: number, high: number): number => {
-    return low + Math.random() * (high - low);
+Math.randomFloat = (low: number, high: number, random?: Random): number => {
+    return low + (random ? random.next() : Math.random()) * (high - low);
 };
 
 /**
@@ -45,16 +47,18 @@ Math.mapLinear = (x: number, a1: number, a2: number, b1: number, b2: number): nu
 
 /**
  * Generates globally-unique identifier
+ * @param {Random} random Seedable generator used instead of Math.random
  * @returns {string}
  */
-Math.generateUUID = (): string => {
+Math.generateUUID = (random?: Random): string => {
+    const next = (): number => random ? random.next() : Math.random();
     let lut: string[] = [];
     for (let i = 0; i < 256; i++) lut[i] = (i < 16 ? '0' : '') + (i).toString(16).toUpperCase();
 
-    let d0: number = Math.random() * 0xffffffff | 0;
-    let d1: number = Math.random() * 0xffffffff | 0;
-    let d2: number = Math.random() * 0xffffffff | 0;
-    let d3: number = Math.random() * 0xffffffff | 0;
+    let d0: number = next() * 0xffffffff | 0;
+    let d1: number = next() * 0xffffffff | 0;
+    let d2: number = next() * 0xffffffff | 0;
+    let d3: number = next() * 0xffffffff | 0;
     return lut[d0 & 0xff] + lut[d0 >> 8 & 0xff] + lut[d0 >> 16 & 0xff] + lut[d0 >> 24 & 0xff] + '-' +
         lut[d1 & 0xff] + lut[d1 >> 8 & 0xff] + '-' + lut[d1 >> 16 & 0x0f | 0x40] + lut[d1 >> 24 & 0xff] + '-' +
         lut[d2 & 0x3f | 0x80] + lut[d2 >> 8 & 0xff] + '-' + lut[d2 >> 16 & 0xff] + lut[d2 >> 24 & 0xff] +
@@ -0,0 +1,244 @@
+/**
+ * Seedable coherent 2D noise (perlin, simplex and value) with fractal layering and domain warping.
+ * Output is deterministic for given seed, base noises return values in range [-1, 1].
+ */
+class Noise {
+    private _perm: Uint8Array;
+
+    constructor(seed?: number | string | Random) {
+        let random: Random = seed instanceof Random ? seed : new Random(seed);
+        let perm: number[] = [];
+        for (let i = 0; i < 256; i++) perm.push(i);
+        random.shuffle(perm);
+
+        //Doubled table avoids wrapping indexes when hashing two coordinates
+        this._perm = new Uint8Array(512);
+        for (let i = 0; i < 512; i++) this._perm[i] = perm[i & 255];
+        return this;
+    }
+
+    /**
+     * Gradient (Perlin) noise
+     * @param {number} x
+     * @param {number} y
+     * @param {number} periodX Tiling period along x axis (integer)
+     * @param {number} periodY Tiling period along y axis (integer), equal to periodX when omitted
+     * @returns {number} Value in range [-1, 1]
+     */
+    public perlin(x: number, y: number, periodX?: number, periodY?: number): number {
+        //https://mrl.cs.nyu.edu/~perlin/noise/
+        let x0: number = Math.floor(x), y0: number = Math.floor(y);
+        let fx: number = x - x0, fy: number = y - y0;
+        const gradient = (ix: number, iy: number, dx: number, dy: number): number => {
+            let h: number = this._hash(ix, iy, periodX, periodY === undefined ? periodX : periodY) & 7;
+            //Eight directions: four axes and four diagonals (diagonals scaled to unit length)
+            switch (h) {
+                case 0:
+                    return dx;
+                case 1:
+                    return -dx;
+                case 2:
+                    return dy;
+                case 3:
+                    return -dy;
+                case 4:
+                    return (dx + dy) * Math.SQRT1_2;
+                case 5:
+                    return (-dx + dy) * Math.SQRT1_2;
+                case 6:
+                    return (dx - dy) * Math.SQRT1_2;
+                default:
+                    return (-dx - dy) * Math.SQRT1_2;
+            }
+        };
+        let u: number = this._fade(fx), v: number = this._fade(fy);
+        let n00: number = gradient(x0, y0, fx, fy), n10: number = gradient(x0 + 1, y0, fx - 1, fy);
+        let n01: number = gradient(x0, y0 + 1, fx, fy - 1), n11: number = gradient(x0 + 1, y0 + 1, fx - 1, fy - 1);
+        let value: number = this._lerp(this._lerp(n00, n10, u), this._lerp(n01, n11, u), v);
+
+        //Maximum of 2D gradient noise with unit gradients is sqrt(1/2)
+        return Math.clamp(value * Math.SQRT2, -1, 1);
+    }
+
+    /**
+     * Simplex noise, cheaper than Perlin and without axis-aligned artifacts (doesn't tile)
+     * @param {number} x
+     * @param {number} y
+     * @returns {number} Value in range [-1, 1]
+     */
+    public simplex(x: number, y: number): number {
+        //https://weber.itn.liu.se/~stegu/simplexnoise/simplexnoise.pdf
+        const F2: number = 0.5 * (Math.sqrt(3) - 1), G2: number = (3 - Math.sqrt(3)) / 6;
+        let s: number = (x + y) * F2;
+        let i: number = Math.floor(x + s), j: number = Math.floor(y + s);
+        let t: number = (i + j) * G2;
+        let x0: number = x - (i - t), y0: number = y - (j - t);
+
+        //Lower or upper triangle of skewed cell
+        let i1: number = x0 > y0 ? 1 : 0, j1: number = x0 > y0 ? 0 : 1;
+        let corners: number[][] = [
+            [x0, y0, 0, 0],
+            [x0 - i1 + G2, y0 - j1 + G2, i1, j1],
+            [x0 - 1 + 2 * G2, y0 - 1 + 2 * G2, 1, 1]
+        ];
+        let value = 0;
+        for (let [dx, dy, di, dj] of corners) {
+            let falloff: number = 0.5 - dx * dx - dy * dy;
+            if (falloff <= 0) continue;
+            let h: number = this._hash(i + di, j + dj) % 12;
+            let gx: number = Noise._GRADIENTS[h][0], gy: number = Noise._GRADIENTS[h][1];
+            falloff *= falloff;
+            value += falloff * falloff * (gx * dx + gy * dy);
+        }
+        return Math.clamp(70 * value, -1, 1);
+    }
+
+    /**
+     * Value noise (smoothly interpolated random values at lattice points)
+     * @param {number} x
+     * @param {number} y
+     * @param {number} periodX Tiling period along x axis (integer)
+     * @param {number} periodY Tiling period along y axis (integer), equal to periodX when omitted
+     * @returns {number} Value in range [-1, 1]
+     */
+    public value(x: number, y: number, periodX?: number, periodY?: number): number {
+        let x0: number = Math.floor(x), y0: number = Math.floor(y);
+        if (periodY === undefined) periodY = periodX;
+        const lattice = (ix: number, iy: number): number => this._hash(ix, iy, periodX, periodY) / 127.5 - 1;
+        let u: number = this._fade(x - x0), v: number = this._fade(y - y0);
+        return this._lerp(
+            this._lerp(lattice(x0, y0), lattice(x0 + 1, y0), u),
+            this._lerp(lattice(x0, y0 + 1), lattice(x0 + 1, y0 + 1), u),
+            v
+        );
+    }
+
+    /**
+     * Fractal Brownian motion, sum of octaves of base noise
+     * @param {number} x
+     * @param {number} y
+     * @param {Noise.FractalOptions} options
+     * @returns {number} Value in range [-1, 1]
+     */
+    public fbm(x: number, y: number, options?: Noise.FractalOptions): number {
+        return this._fractal(x, y, options || {}, n => n);
+    }
+
+    /**
+     * Ridged multifractal noise, sharp crests where base noise crosses zero (mountain ridges)
+     * @param {number} x
+     * @param {number} y
+     * @param {Noise.FractalOptions} options
+     * @returns {number} Value in range [0, 1]
+     */
+    public ridged(x: number, y: number, options?: Noise.FractalOptions): number {
+        return this._fractal(x, y, options || {}, n => (1 - Math.abs(n)) * (1 - Math.abs(n)));
+    }
+
+    /**
+     * Turbulence, sum of absolute values of octaves (billowy clouds, fire)
+     * @param {number} x
+     * @param {number} y
+     * @param {Noise.FractalOptions} options
+     * @returns {number} Value in range [0, 1]
+     */
+    public turbulence(x: number, y: number, options?: Noise.FractalOptions): number {
+        return this._fractal(x, y, options || {}, n => Math.abs(n));
+    }
+
+    /**
+     * Domain warping, fractal noise sampled at position displaced by another fractal noise
+     * @param {number} x
+     * @param {number} y
+     * @param {number} strength Displacement distance (default 1)
+     * @param {Noise.FractalOptions} options
+     * @returns {number} Value in range [-1, 1]
+     */
+    public warp(x: number, y: number, strength?: number, options?: Noise.FractalOptions): number {
+        //https://iquilezles.org/articles/warp/
+        if (strength === undefined) strength = 1;
+        //Offsets decorrelate displacement along both axes
+        let qx: number = this.fbm(x, y, options);
+        let qy: number = this.fbm(x + 5.2, y + 1.3, options);
+        return this.fbm(x + strength * qx, y + strength * qy, options);
+    }
+
+    /**
+     * Sums octaves of base noise shaped by given function, result is normalized by sum of amplitudes
+     * @private
+     */
+    private _fractal(x: number, y: number, options: Noise.FractalOptions, shape: (n: number) => number): number {
+        let octaves: number = options.octaves === undefined ? 5 : options.octaves;
+        let frequency: number = options.frequency === undefined ? 1 : options.frequency;
+        let lacunarity: number = options.lacunarity === undefined ? 2 : options.lacunarity;
+        let gain: number = options.gain === undefined ? 0.5 : options.gain;
+        let sum = 0, amplitude = 1, total = 0;
+        for (let i = 0; i < octaves; i++) {
+            let period: number | undefined = options.period === undefined ? undefined : Math.round(options.period * frequency);
+            let n: number;
+            if (options.type === 'simplex') n = this.simplex(x * frequency, y * frequency);
+            else if (options.type === 'value') n = this.value(x * frequency, y * frequency, period);
+            else n = this.perlin(x * frequency, y * frequency, period);
+            sum += shape(n) * amplitude;
+            total += amplitude;
+            amplitude *= gain;
+            frequency *= lacunarity;
+        }
+        return total === 0 ? 0 : sum / total;
+    }
+
+    /**
+     * Hashes lattice point into byte, coordinates are wrapped when period is given
+     * @private
+     */
+    private _hash(ix: number, iy: number, periodX?: number, periodY?: number): number {
+        if (periodX) ix = (ix % periodX + periodX) % periodX;
+        if (periodY) iy = (iy % periodY + periodY) % periodY;
+        return this._perm[this._perm[ix & 255] + (iy & 255)];
+    }
+
+    /**
+     * Quintic interpolation curve 6t^5 - 15t^4 + 10t^3
+     * @private
+     */
+    private _fade(t: number): number {
+        return t * t * t * (t * (t * 6 - 15) + 10);
+    }
+
+    /**
+     * Linear interpolation
+     * @private
+     */
+    private _lerp(a: number, b: number, t: number): number {
+        return a + (b - a) * t;
+    }
+
+    /**
+     * Gradients of simplex noise (midpoints of cube edges projected onto plane)
+     * @private
+     */
+    private static _GRADIENTS: number[][] = [
+        [1, 1], [-1, 1], [1, -1], [-1, -1],
+        [1, 0], [-1, 0], [1, 0], [-1, 0],
+        [0, 1], [0, -1], [0, 1], [0, -1]
+    ];
+}
+
+namespace Noise {
+
+    /**
+     * Options of fractal noise
+     * 'type' selects base noise (default 'perlin'), 'octaves' number of layers (default 5),
+     * 'frequency' of the first layer (default 1), 'lacunarity' frequency multiplier (default 2) and
+     * 'gain' amplitude multiplier (default 0.5) of following layers.
+     * 'period' makes perlin and value noise tile every period units (frequency and lacunarity should be integers then).
+     */
+    export interface FractalOptions {
+        type?: 'perlin' | 'simplex' | 'value',
+        octaves?: number,
+        frequency?: number,
+        lacunarity?: number,
+        gain?: number,
+        period?: number
+    }
+}
@@ -173,4 +173,549 @@ namespace Polygon {
         });
     }
 
+    /**
+     * Calculates convex hull of set of points (monotone chain algorithm).
+     * Collinear points are skipped, hull is ordered counter-clockwise in standard axes (positive signed area)
+     * @param {Polygon.Point[]} points
+     * @returns {Polygon.Point[]}
+     */
+    export function ConvexHull(points: Point[]): Point[] {
+        //https://en.wikibooks.org/wiki/Algorithm_Implementation/Geometry/Convex_hull/Monotone_chain
+        const cross = (o: Point, a: Point, b: Point): number => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+        let sorted: Point[] = points.slice().sort((a, b) => a.x === b.x ? a.y - b.y : a.x - b.x);
+        if (sorted.length < 3) return sorted.map(p => ({x: p.x, y: p.y}));
+
+        let lower: Point[] = [];
+        for (let p of sorted) {
+            while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+            lower.push(p);
+        }
+        let upper: Point[] = [];
+        for (let i = sorted.length - 1; i >= 0; i--) {
+            let p: Point = sorted[i];
+            while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+            upper.push(p);
+        }
+        lower.pop();
+        upper.pop();
+        return lower.concat(upper).map(p => ({x: p.x, y: p.y}));
+    }
+
+    /**
+     * Decomposes simple (possibly concave) polygon into convex pieces (Hertel-Mehlhorn algorithm).
+     * Polygon is triangulated and diagonals are removed as long as merged pieces stay convex,
+     * which gives at most four times the minimal number of pieces.
+     * Pieces are ordered counter-clockwise in standard axes (positive signed area)
+     * @param {Polygon.Point[]} polygon
+     * @returns {Polygon.Point[][]}
+     */
+    export function ConvexDecomposition(polygon: Point[]): Point[][] {
+        const cross = (o: Point, a: Point, b: Point): number => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+        const isConvex = (piece: number[]): boolean => {
+            for (let i = 0; i < piece.length; i++) {
+                let a: Point = polygon[piece[i]], b: Point = polygon[piece[(i + 1) % piece.length]];
+                let c: Point = polygon[piece[(i + 2) % piece.length]];
+                if (cross(a, b, c) < 0) return false;
+            }
+            return true;
+        };
+        const rotate = (piece: number[], start: number): number[] =>
+            piece.slice(start).concat(piece.slice(0, start));
+
+        let pieces: number[][] = Triangulation.EarClipping(polygon);
+        let merged: boolean = true;
+        while (merged) {
+            merged = false;
+            for (let i = 0; i < pieces.length && !merged; i++) {
+                for (let j = i + 1; j < pieces.length && !merged; j++) {
+                    //Find diagonal a -> b of piece i which is b -> a in piece j
+                    for (let k = 0; k < pieces[i].length && !merged; k++) {
+                        let a: number = pieces[i][k], b: number = pieces[i][(k + 1) % pieces[i].length];
+                        let l: number = pieces[j].indexOf(b);
+                        if (l === -1 || pieces[j][(l + 1) % pieces[j].length] !== a) continue;
+
+                        let first: number[] = rotate(pieces[i], (k + 1) % pieces[i].length);
+                        let second: number[] = rotate(pieces[j], (l + 1) % pieces[j].length);
+                        let candidate: number[] = first.concat(second.slice(1, second.length - 1));
+                        if (!isConvex(candidate)) continue;
+                        pieces[i] = candidate;
+                        pieces.splice(j, 1);
+                        merged = true;
+                    }
+                }
+            }
+        }
+        return pieces.map(piece => piece.map(index => ({x: polygon[index].x, y: polygon[index].y})));
+    }
+
+    /**
+     * Simplifies polyline or polygon using Ramer-Douglas-Peucker algorithm.
+     * Input is treated as closed when 'closed' is true or the last point equals the first one,
+     * repeated closing point is preserved in result
+     * @param {Polygon.Point[]} points
+     * @param {number} tolerance Maximum distance of removed points from simplified outline
+     * @param {boolean} closed
+     * @returns {Polygon.Point[]}
+     */
+    export function SimplifyRDP(points: Point[], tolerance: number, closed?: boolean): Point[] {
+        //https://en.wikipedia.org/wiki/Ramer%E2%80%93Douglas%E2%80%93Peucker_algorithm
+        let path = _OpenPath(points, closed);
+        let pts: Point[] = path.points;
+        if (pts.length < 3) return _ClosePath(pts, path.repeated);
+
+        //Closed ring is split at the point farthest from the first one
+        let last: number = pts.length - 1;
+        if (path.closed) {
+            let max: number = -1;
+            for (let i = 1; i < pts.length; i++) {
+                let d: number = (pts[i].x - pts[0].x) * (pts[i].x - pts[0].x) + (pts[i].y - pts[0].y) * (pts[i].y - pts[0].y);
+                if (d > max) {
+                    max = d;
+                    last = i;
+                }
+            }
+        }
+
+        let keep: boolean[] = pts.map(() => false);
+        keep[0] = keep[last] = true;
+        let ranges: number[][] = [[0, last]];
+        if (path.closed) ranges.push([last, pts.length]);
+        while (ranges.length > 0) {
+            let [start, end] = ranges.pop()!;
+            let a: Point = pts[start], b: Point = pts[end % pts.length];
+            let index = -1, max = tolerance;
+            for (let i = start + 1; i < end; i++) {
+                let d: number = _DistanceToSegment(pts[i], a, b);
+                if (d > max) {
+                    max = d;
+                    index = i;
+                }
+            }
+            if (index === -1) continue;
+            keep[index] = true;
+            ranges.push([start, index], [index, end]);
+        }
+        return _ClosePath(pts.filter((p, i) => keep[i]), path.repeated);
+    }
+
+    /**
+     * Simplifies polyline or polygon using Visvalingam-Whyatt algorithm.
+     * Points forming triangles with their neighbours smaller than tolerance are removed, starting from the smallest one.
+     * Input is treated as closed when 'closed' is true or the last point equals the first one,
+     * repeated closing point is preserved in result
+     * @param {Polygon.Point[]} points
+     * @param {number} tolerance Minimum area of triangle formed by kept point and its neighbours
+     * @param {boolean} closed
+     * @returns {Polygon.Point[]}
+     */
+    export function SimplifyVisvalingam(points: Point[], tolerance: number, closed?: boolean): Point[] {
+        //https://bost.ocks.org/mike/simplify/
+        let path = _OpenPath(points, closed);
+        let pts: Point[] = path.points.slice();
+        let minLength: number = path.closed ? 3 : 2;
+        const area = (i: number): number => {
+            if (!path.closed && (i === 0 || i === pts.length - 1)) return Infinity;
+            let a: Point = pts[(i + pts.length - 1) % pts.length], b: Point = pts[i], c: Point = pts[(i + 1) % pts.length];
+            return Math.abs((b.x - a.x) * (c.y - a.y) - (c.x - a.x) * (b.y - a.y)) / 2;
+        };
+
+        let areas: number[] = pts.map((p, i) => area(i));
+        while (pts.length > minLength) {
+            let index = 0;
+            for (let i = 1; i < areas.length; i++) if (areas[i] < areas[index]) index = i;
+            if (areas[index] >= tolerance) break;
+
+            //Neighbours never get smaller area than the removed point
+            let removed: number = areas[index];
+            pts.splice(index, 1);
+            areas.splice(index, 1);
+            for (let i of [(index + pts.length - 1) % pts.length, index % pts.length]) {
+                areas[i] = Math.max(area(i), removed);
+            }
+        }
+        return _ClosePath(pts, path.repeated);
+    }
+
+    /**
+     * Smooths polyline or polygon using Chaikin's corner cutting.
+     * Every iteration replaces each edge with points at 1/4 and 3/4 of its length, ends of open polyline are kept.
+     * Input is treated as closed when 'closed' is true or the last point equals the first one,
+     * repeated closing point is preserved in result
+     * @param {Polygon.Point[]} points
+     * @param {number} iterations Number of iterations (default 1)
+     * @param {boolean} closed
+     * @returns {Polygon.Point[]}
+     */
+    export function SmoothChaikin(points: Point[], iterations?: number, closed?: boolean): Point[] {
+        if (iterations === undefined) iterations = 1;
+        let path = _OpenPath(points, closed);
+        let pts: Point[] = path.points;
+        if (pts.length < 3) return _ClosePath(pts, path.repeated);
+
+        for (let k = 0; k < iterations; k++) {
+            let smoothed: Point[] = path.closed ? [] : [pts[0]];
+            let edges: number = path.closed ? pts.length : pts.length - 1;
+            for (let i = 0; i < edges; i++) {
+                let a: Point = pts[i], b: Point = pts[(i + 1) % pts.length];
+                if (path.closed || i > 0) smoothed.push({x: 0.75 * a.x + 0.25 * b.x, y: 0.75 * a.y + 0.25 * b.y});
+                if (path.closed || i < edges - 1) smoothed.push({x: 0.25 * a.x + 0.75 * b.x, y: 0.25 * a.y + 0.75 * b.y});
+            }
+            if (!path.closed) smoothed.push(pts[pts.length - 1]);
+            pts = smoothed;
+        }
+        return _ClosePath(pts, path.repeated);
+    }
+
+    /**
+     * Resamples polyline or polygon to given number of points evenly spaced by arc length.
+     * Open polyline keeps its ends, closed ring starts at its first point.
+     * Input is treated as closed when 'closed' is true or the last point equals the first one,
+     * repeated closing point is preserved in result (and not counted)
+     * @param {Polygon.Point[]} points
+     * @param {number} count Number of points (at least 2 for polyline and 3 for polygon)
+     * @param {boolean} closed
+     * @returns {Polygon.Point[]}
+     */
+    export function Resample(points: Point[], count: number, closed?: boolean): Point[] {
+        let path = _OpenPath(points, closed);
+        let pts: Point[] = path.points;
+        if (pts.length < 2 || count < 2) return _ClosePath(pts, path.repeated);
+
+        let segments: number = path.closed ? pts.length : pts.length - 1;
+        let lengths: number[] = [];
+        let total = 0;
+        for (let i = 0; i < segments; i++) {
+            let a: Point = pts[i], b: Point = pts[(i + 1) % pts.length];
+            lengths.push(Math.sqrt((b.x - a.x) * (b.x - a.x) + (b.y - a.y) * (b.y - a.y)));
+            total += lengths[i];
+        }
+
+        let spacing: number = total / (path.closed ? count : count - 1);
+        let toReturn: Point[] = [];
+        let segment = 0, covered = 0;
+        for (let k = 0; k < count; k++) {
+            let target: number = k * spacing;
+            while (segment < segments - 1 && covered + lengths[segment] < target) covered += lengths[segment++];
+            let a: Point = pts[segment], b: Point = pts[(segment + 1) % pts.length];
+            let t: number = lengths[segment] === 0 ? 0 : Math.min(1, (target - covered) / lengths[segment]);
+            toReturn.push({x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t});
+        }
+        return _ClosePath(toReturn, path.repeated);
+    }
+
+    /**
+     * Removes repeated closing point and tells if path is closed
+     * @param {Polygon.Point[]} points
+     * @param {boolean} closed
+     * @returns {{points: Polygon.Point[], closed: boolean, repeated: boolean}}
+     * @private
+     */
+    function _OpenPath(points: Point[], closed?: boolean): { points: Point[], closed: boolean, repeated: boolean } {
+        let first: Point = points[0], last: Point = points[points.length - 1];
+        let repeated: boolean = points.length > 1 && first.x === last.x && first.y === last.y;
+        return {
+            points: (repeated ? points.slice(0, points.length - 1) : points).map(p => ({x: p.x, y: p.y})),
+            closed: closed === undefined ? repeated : closed || repeated,
+            repeated: repeated
+        };
+    }
+
+    /**
+     * Appends copy of the first point when path had repeated closing point
+     * @private
+     */
+    function _ClosePath(points: Point[], repeated: boolean): Point[] {
+        if (repeated && points.length > 0) points.push({x: points[0].x, y: points[0].y});
+        return points;
+    }
+
+    /**
+     * Calculates distance from point to line segment ab
+     * @private
+     */
+    function _DistanceToSegment(point: Point, a: Point, b: Point): number {
+        let abx: number = b.x - a.x, aby: number = b.y - a.y;
+        let lengthSq: number = abx * abx + aby * aby;
+        let t: number = lengthSq === 0 ? 0 : ((point.x - a.x) * abx + (point.y - a.y) * aby) / lengthSq;
+        t = Math.max(0, Math.min(1, t));
+        let dx: number = a.x + abx * t - point.x, dy: number = a.y + aby * t - point.y;
+        return Math.sqrt(dx * dx + dy * dy);
+    }
+
+    /**
+     * Checks if polygon is convex. Collinear vertices are allowed
+     * @param {Polygon.Point[]} polygon
+     * @returns {boolean}
+     */
+    export function IsConvex(polygon: Point[]): boolean {
+        if (polygon.length < 3) return false;
+        let sign = 0, turning = 0;
+        for (let i = 0; i < polygon.length; i++) {
+            let a: Point = polygon[i], b: Point = polygon[(i + 1) % polygon.length], c: Point = polygon[(i + 2) % polygon.length];
+            let abx: number = b.x - a.x, aby: number = b.y - a.y, bcx: number = c.x - b.x, bcy: number = c.y - b.y;
+            let cross: number = abx * bcy - aby * bcx;
+            if (cross !== 0) {
+                if (sign !== 0 && Math.sign(cross) !== sign) return false;
+                sign = Math.sign(cross);
+            }
+            turning += Math.atan2(cross, abx * bcx + aby * bcy);
+        }
+
+        //Turns in one direction summing up to more than one revolution mean star-like polygon
+        return sign !== 0 && Math.abs(Math.abs(turning) - 2 * Math.PI) < 1e-6;
+    }
+
+    /**
+     * Checks if polygon is simple (its edges don't cross or touch except neighbours at shared vertex).
+     * Uses sweep line algorithm (Shamos-Hoey), so only edges neighbouring on the sweep line are compared
+     * @param {Polygon.Point[]} polygon
+     * @returns {boolean}
+     */
+    export function IsSimple(polygon: Point[]): boolean {
+        //https://www.webcitation.org/6ahkPQIsN
+        let n: number = polygon.length;
+        if (n < 3) return false;
+        const left = (i: number): Point => _LexicographicCompare(polygon[i], polygon[(i + 1) % n]) <= 0 ? polygon[i] : polygon[(i + 1) % n];
+        const right = (i: number): Point => left(i) === polygon[i] ? polygon[(i + 1) % n] : polygon[i];
+        const yAt = (i: number, x: number): number => {
+            let a: Point = left(i), b: Point = right(i);
+            if (a.x === b.x) return a.y;
+            return a.y + (b.y - a.y) * (x - a.x) / (b.x - a.x);
+        };
+        const intersect = (i: number, j: number): boolean => {
+            let adjacent: boolean = (i + 1) % n === j || (j + 1) % n === i;
+            return _EdgesIntersect(polygon[i], polygon[(i + 1) % n], polygon[j], polygon[(j + 1) % n], adjacent);
+        };
+
+        let events: Array<{ point: Point, edge: number, insert: boolean }> = [];
+        for (let i = 0; i < n; i++) {
+            events.push({point: left(i), edge: i, insert: true}, {point: right(i), edge: i, insert: false});
+        }
+        events.sort((a, b) => _LexicographicCompare(a.point, b.point) || (a.insert === b.insert ? 0 : a.insert ? -1 : 1));
+
+        let status: number[] = [];
+        for (let event of events) {
+            let x: number = event.point.x;
+            if (event.insert) {
+                //Binary search for position ordered by y at the sweep line (slope breaks ties)
+                let low = 0, high: number = status.length;
+                let y: number = event.point.y, r: Point = right(event.edge);
+                while (low < high) {
+                    let mid: number = (low + high) >> 1;
+                    let other: number = status[mid];
+                    let oy: number = yAt(other, x);
+                    let below: boolean = oy < y;
+                    if (oy === y) {
+                        let or: Point = right(other);
+                        below = (or.y - oy) * (r.x - x) < (r.y - y) * (or.x - x);
+                    }
+                    if (below) low = mid + 1;
+                    else high = mid;
+                }
+                status.splice(low, 0, event.edge);
+                if (low > 0 && intersect(status[low - 1], event.edge)) return false;
+                if (low < status.length - 1 && intersect(status[low + 1], event.edge)) return false;
+            } else {
+                let index: number = status.indexOf(event.edge);
+                if (index > 0 && index < status.length - 1 && intersect(status[index - 1], status[index + 1])) return false;
+                status.splice(index, 1);
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Checks if polygon is ordered clockwise as seen on canvas (y axis pointing down).
+     * It is the order created by SortClockwise and it gives positive signed area
+     * @param {Polygon.Point[]} polygon
+     * @returns {boolean}
+     */
+    export function IsClockwise(polygon: Point[]): boolean {
+        return GetArea(polygon, true) > 0;
+    }
+
+    /**
+     * Reverses polygon in place when its winding order differs from requested one.
+     * Unlike SortClockwise it keeps the sequence of vertices, so concave polygons stay valid
+     * @param {Polygon.Point[]} polygon
+     * @param {boolean} clockwise Requested order as seen on canvas (y axis pointing down)
+     */
+    export function SetWinding(polygon: Point[], clockwise: boolean): void {
+        if (IsClockwise(polygon) !== clockwise) polygon.reverse();
+    }
+
+    /**
+     * Calculates perimeter of polygon
+     * @param {Polygon.Point[]} polygon
+     * @returns {number}
+     */
+    export function GetPerimeter(polygon: Point[]): number {
+        let perimeter = 0;
+        for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+            let dx: number = polygon[i].x - polygon[j].x, dy: number = polygon[i].y - polygon[j].y;
+            perimeter += Math.sqrt(dx * dx + dy * dy);
+        }
+        return perimeter;
+    }
+
+    /**
+     * Calculates axis-aligned bounding box of polygon
+     * @param {Polygon.Point[]} polygon
+     * @returns {{minX: number, minY: number, maxX: number, maxY: number}}
+     */
+    export function GetBounds(polygon: Point[]): { minX: number, minY: number, maxX: number, maxY: number } {
+        let bounds = {minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity};
+        for (let p of polygon) {
+            bounds.minX = Math.min(bounds.minX, p.x);
+            bounds.minY = Math.min(bounds.minY, p.y);
+            bounds.maxX = Math.max(bounds.maxX, p.x);
+            bounds.maxY = Math.max(bounds.maxY, p.y);
+        }
+        return bounds;
+    }
+
+    /**
+     * Calculates minimum-area oriented bounding rectangle (rotating calipers on convex hull).
+     * One side of minimal rectangle is always collinear with an edge of the hull
+     * @param {Polygon.Point[]} polygon
+     * @returns {{center: Polygon.Point, width: number, height: number, angle: number, points: Polygon.Point[]}}
+     * Rectangle's center, size along its own axes, rotation in radians and its four corners
+     */
+    export function GetOrientedBounds(polygon: Point[]): { center: Point, width: number, height: number, angle: number, points: Point[] } {
+        let hull: Point[] = ConvexHull(polygon);
+        let best = {area: Infinity, angle: 0, minU: 0, maxU: 0, minV: 0, maxV: 0};
+        for (let i = 0; i < hull.length; i++) {
+            let a: Point = hull[i], b: Point = hull[(i + 1) % hull.length];
+            let angle: number = Math.atan2(b.y - a.y, b.x - a.x);
+            let cos: number = Math.cos(angle), sin: number = Math.sin(angle);
+            let minU = Infinity, maxU = -Infinity, minV = Infinity, maxV = -Infinity;
+            for (let p of hull) {
+                let u: number = p.x * cos + p.y * sin, v: number = -p.x * sin + p.y * cos;
+                minU = Math.min(minU, u);
+                maxU = Math.max(maxU, u);
+                minV = Math.min(minV, v);
+                maxV = Math.max(maxV, v);
+            }
+            let area: number = (maxU - minU) * (maxV - minV);
+            if (area < best.area) best = {area: area, angle: angle, minU: minU, maxU: maxU, minV: minV, maxV: maxV};
+        }
+        if (hull.length < 3) {
+            let bounds = GetBounds(polygon);
+            best = {area: 0, angle: 0, minU: bounds.minX, maxU: bounds.maxX, minV: bounds.minY, maxV: bounds.maxY};
+        }
+
+        let cos: number = Math.cos(best.angle), sin: number = Math.sin(best.angle);
+        const toWorld = (u: number, v: number): Point => ({x: u * cos - v * sin, y: u * sin + v * cos});
+        return {
+            center: toWorld((best.minU + best.maxU) / 2, (best.minV + best.maxV) / 2),
+            width: best.maxU - best.minU,
+            height: best.maxV - best.minV,
+            angle: best.angle,
+            points: [
+                toWorld(best.minU, best.minV), toWorld(best.maxU, best.minV),
+                toWorld(best.maxU, best.maxV), toWorld(best.minU, best.maxV)
+            ]
+        };
+    }
+
+    /**
+     * Calculates the smallest circle enclosing polygon (Welzl's algorithm)
+     * @param {Polygon.Point[]} polygon
+     * @returns {{center: Polygon.Point, radius: number}}
+     */
+    export function GetBoundingCircle(polygon: Point[]): { center: Point, radius: number } {
+        //https://www.nayuki.io/page/smallest-enclosing-circle
+        const contains = (c: { center: Point, radius: number }, p: Point): boolean =>
+            Math.sqrt((p.x - c.center.x) * (p.x - c.center.x) + (p.y - c.center.y) * (p.y - c.center.y)) <= c.radius * (1 + 1e-12) + 1e-12;
+        const fromTwo = (a: Point, b: Point) => {
+            let center: Point = {x: (a.x + b.x) / 2, y: (a.y + b.y) / 2};
+            return {center: center, radius: Math.sqrt((a.x - center.x) * (a.x - center.x) + (a.y - center.y) * (a.y - center.y))};
+        };
+        const fromThree = (a: Point, b: Point, c: Point) => {
+            let d: number = 2 * (a.x * (b.y - c.y) + b.x * (c.y - a.y) + c.x * (a.y - b.y));
+            if (d === 0) {
+                //Collinear points, the farthest pair is the diameter
+                let candidates = [fromTwo(a, b), fromTwo(b, c), fromTwo(a, c)];
+                return candidates.reduce((m, circle) => circle.radius > m.radius ? circle : m);
+            }
+            let a2: number = a.x * a.x + a.y * a.y, b2: number = b.x * b.x + b.y * b.y, c2: number = c.x * c.x + c.y * c.y;
+            let center: Point = {
+                x: (a2 * (b.y - c.y) + b2 * (c.y - a.y) + c2 * (a.y - b.y)) / d,
+                y: (a2 * (c.x - b.x) + b2 * (a.x - c.x) + c2 * (b.x - a.x)) / d
+            };
+            return {center: center, radius: Math.sqrt((a.x - center.x) * (a.x - center.x) + (a.y - center.y) * (a.y - center.y))};
+        };
+
+        let points: Point[] = ConvexHull(polygon);
+        if (points.length === 0) return {center: {x: 0, y: 0}, radius: 0};
+        let circle = {center: {x: points[0].x, y: points[0].y}, radius: 0};
+        for (let i = 1; i < points.length; i++) {
+            if (contains(circle, points[i])) continue;
+            circle = {center: {x: points[i].x, y: points[i].y}, radius: 0};
+            for (let j = 0; j < i; j++) {
+                if (contains(circle, points[j])) continue;
+                circle = fromTwo(points[i], points[j]);
+                for (let k = 0; k < j; k++) {
+                    if (!contains(circle, points[k])) circle = fromThree(points[i], points[j], points[k]);
+                }
+            }
+        }
+        return circle;
+    }
+
+    /**
+     * Calculates moment of inertia of solid polygon about its centroid
+     * @param {Polygon.Point[]} polygon
+     * @param {number} density Mass per unit of area (default 1)
+     * @returns {number}
+     */
+    export function GetMomentOfInertia(polygon: Point[], density?: number): number {
+        //https://en.wikipedia.org/wiki/Second_moment_of_area#Any_polygon
+        if (density === undefined) density = 1;
+        let inertia = 0;
+        for (let i = 0; i < polygon.length; i++) {
+            let a: Point = polygon[i], b: Point = polygon[(i + 1) % polygon.length];
+            let cross: number = a.x * b.y - b.x * a.y;
+            inertia += cross * (a.x * a.x + a.x * b.x + b.x * b.x + a.y * a.y + a.y * b.y + b.y * b.y);
+        }
+        inertia = Math.abs(inertia) * density / 12;
+
+        //Parallel axis theorem moves the axis from origin to centroid
+        let mass: number = GetArea(polygon) * density;
+        let center: Point = GetCenterPoint(polygon);
+        return inertia - mass * (center.x * center.x + center.y * center.y);
+    }
+
+    /**
+     * Compares points by x and then by y
+     * @private
+     */
+    function _LexicographicCompare(a: Point, b: Point): number {
+        return a.x === b.x ? a.y - b.y : a.x - b.x;
+    }
+
+    /**
+     * Checks if segments ab and cd intersect or touch.
+     * Neighbouring edges are allowed to share one vertex, but not to overlap
+     * @private
+     */
+    function _EdgesIntersect(a: Point, b: Point, c: Point, d: Point, adjacent: boolean): boolean {
+        const orientation = (p: Point, q: Point, r: Point): number => Math.sign((q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x));
+        const onSegment = (p: Point, q: Point, r: Point): boolean =>
+            Math.min(p.x, q.x) <= r.x && r.x <= Math.max(p.x, q.x) && Math.min(p.y, q.y) <= r.y && r.y <= Math.max(p.y, q.y);
+
+        let o1: number = orientation(a, b, c), o2: number = orientation(a, b, d);
+        let o3: number = orientation(c, d, a), o4: number = orientation(c, d, b);
+        if (adjacent) {
+            //Shared vertex is fine unless edges are collinear and fold back onto each other
+            if (o1 !== 0 || o2 !== 0) return false;
+            let shared: Point = (a === c || a === d) ? a : b;
+            let other1: Point = shared === a ? b : a, other2: Point = shared === c ? d : c;
+            return (other1.x - shared.x) * (other2.x - shared.x) + (other1.y - shared.y) * (other2.y - shared.y) > 0;
+        }
+        if (o1 !== o2 && o3 !== o4) return true;
+        return (o1 === 0 && onSegment(a, b, c)) || (o2 === 0 && onSegment(a, b, d)) ||
+            (o3 === 0 && onSegment(c, d, a)) || (o4 === 0 && onSegment(c, d, b));
+    }
+
 }
\ No newline at end of file
@@ -0,0 +1,395 @@
+/**
+ * SPECIFICATION
+ *
+ * 1) POINT:object = {x:number, y:number}
+ * 2) POLYGON:POINT[x>=3] = [POINT, POINT, POINT, ...] (simple, may be concave, any winding order)
+ * 3) RESULT:object[] = [{outer: POLYGON, holes: POLYGON[]}, ...]
+ *    Outer rings have positive signed area (Polygon.GetArea), holes have negative signed area.
+ */
+namespace PolygonBoolean {
+
+    /**
+     * Interface of Point
+     */
+    interface Point {
+        x: number,
+        y: number,
+
+        [propName: string]: any;
+    }
+
+    /**
+     * Interface of polygon with holes
+     */
+    export interface PolygonWithHoles {
+        outer: Point[],
+        holes: Point[][]
+    }
+
+    /**
+     * Interface of overlay edge, 'a' and 'b' are indexes of vertices (a < b)
+     * and 'count' holds how many times rings of each group pass the edge from a to b (negative from b to a)
+     */
+    interface OverlayEdge {
+        a: number,
+        b: number,
+        count: number[]
+    }
+
+    /**
+     * Interface of input segment
+     */
+    interface Segment {
+        p: Point,
+        q: Point,
+        group: number
+    }
+
+    /**
+     * Calculates union of two polygons
+     * @param {PolygonBoolean.Point[]} polygon1 Array of points
+     * @param {PolygonBoolean.Point[]} polygon2 Array of points
+     * @returns {PolygonBoolean.PolygonWithHoles[]}
+     */
+    export function Union(polygon1: Point[], polygon2: Point[]): PolygonWithHoles[] {
+        return Overlay([[polygon1], [polygon2]], w => w[0] !== 0 || w[1] !== 0);
+    }
+
+    /**
+     * Calculates intersection of two polygons
+     * @param {PolygonBoolean.Point[]} polygon1 Array of points
+     * @param {PolygonBoolean.Point[]} polygon2 Array of points
+     * @returns {PolygonBoolean.PolygonWithHoles[]}
+     */
+    export function Intersection(polygon1: Point[], polygon2: Point[]): PolygonWithHoles[] {
+        return Overlay([[polygon1], [polygon2]], w => w[0] !== 0 && w[1] !== 0);
+    }
+
+    /**
+     * Calculates difference of two polygons (polygon1 minus polygon2)
+     * @param {PolygonBoolean.Point[]} polygon1 Array of points
+     * @param {PolygonBoolean.Point[]} polygon2 Array of points
+     * @returns {PolygonBoolean.PolygonWithHoles[]}
+     */
+    export function Difference(polygon1: Point[], polygon2: Point[]): PolygonWithHoles[] {
+        return Overlay([[polygon1], [polygon2]], w => w[0] !== 0 && w[1] === 0);
+    }
+
+    /**
+     * Calculates symmetric difference (exclusive or) of two polygons
+     * @param {PolygonBoolean.Point[]} polygon1 Array of points
+     * @param {PolygonBoolean.Point[]} polygon2 Array of points
+     * @returns {PolygonBoolean.PolygonWithHoles[]}
+     */
+    export function Xor(polygon1: Point[], polygon2: Point[]): PolygonWithHoles[] {
+        return Overlay([[polygon1], [polygon2]], w => (w[0] !== 0) !== (w[1] !== 0));
+    }
+
+    /**
+     * Overlays groups of rings and returns regions accepted by fill rule.
+     * Rings may overlap each other and self-intersect. Every region gets winding number of each group,
+     * ring ordered counter-clockwise in standard axes adds 1, clockwise subtracts 1.
+     * Edges of all rings are split at every crossing or touching point, so shared edges and touching vertices are handled
+     * @param {PolygonBoolean.Point[][][]} groups Array of groups, each group is array of rings
+     * @param {(windings: number[]) => boolean} fill Tells if region with given winding numbers (one per group) belongs to result
+     * @returns {PolygonBoolean.PolygonWithHoles[]}
+     */
+    export function Overlay(groups: Point[][][], fill: (windings: number[]) => boolean): PolygonWithHoles[] {
+        let segments: Segment[] = [];
+        let points: Point[] = [];
+        groups.forEach((group, index) => {
+            for (let ring of group) {
+                let cleaned: Point[] = _Clean(ring);
+                if (cleaned.length < 3) continue;
+                for (let i = 0; i < cleaned.length; i++) {
+                    segments.push({p: cleaned[i], q: cleaned[(i + 1) % cleaned.length], group: index});
+                }
+                points = points.concat(cleaned);
+            }
+        });
+
+        let vertices: Point[] = [];
+        let eps: number = _Tolerance(points);
+        let edges: OverlayEdge[] = _Split(segments, groups.length, eps, vertices);
+        let index: Broadphase.AABBTree<OverlayEdge> = new Broadphase.AABBTree(0);
+        for (let edge of edges) index.insert(edge, _Bounds(vertices[edge.a], vertices[edge.b], eps));
+
+        //Keep edges with result region on the left side only
+        let outgoing: Map<number, number[]> = new Map();
+        for (let edge of edges) {
+            let right: number[] = _RightWinding(edge, index, vertices);
+            let left: number[] = right.map((w, group) => w + edge.count[group]);
+            let leftFilled: boolean = fill(left), rightFilled: boolean = fill(right);
+            if (leftFilled === rightFilled) continue;
+            let from: number = leftFilled ? edge.a : edge.b, to: number = leftFilled ? edge.b : edge.a;
+            if (!outgoing.has(from)) outgoing.set(from, []);
+            outgoing.get(from)!.push(to);
+        }
+
+        return _AssignHoles(_TraceRings(vertices, outgoing));
+    }
+
+    /**
+     * Splits segments at every crossing or touching point and merges coincident parts
+     * @param {Segment[]} segments
+     * @param {number} groups Number of groups
+     * @param {number} eps Snapping tolerance
+     * @param {PolygonBoolean.Point[]} vertices Filled with vertices of created edges
+     * @returns {OverlayEdge[]} Edges passed by at least one group
+     * @private
+     */
+    function _Split(segments: Segment[], groups: number, eps: number, vertices: Point[]): OverlayEdge[] {
+        let grid: Map<string, number[]> = new Map();
+        let edges: Map<string, OverlayEdge> = new Map();
+        let index: Broadphase.AABBTree<Segment> = new Broadphase.AABBTree(0);
+        for (let segment of segments) index.insert(segment, _Bounds(segment.p, segment.q, eps));
+        for (let segment of segments) {
+            let p: Point = segment.p, q: Point = segment.q;
+            let splits: Point[] = [p, q];
+            for (let other of index.queryRect(_Bounds(p, q, 0))) {
+                if (other === segment) continue;
+                let r: Point = other.p, s: Point = other.q;
+                let crossing: Point | null = _SegmentsCrossing(p, q, r, s, eps);
+                if (crossing !== null) splits.push(crossing);
+                for (let end of [r, s]) if (_DistanceToSegment(end, p, q) <= eps) splits.push(end);
+            }
+
+            //Order split points along the segment and create edges between consecutive distinct vertices
+            let dx: number = q.x - p.x, dy: number = q.y - p.y;
+            let indexes: Array<{ index: number, t: number }> = splits.map(point => ({
+                index: _VertexIndex(point, vertices, grid, eps),
+                t: (point.x - p.x) * dx + (point.y - p.y) * dy
+            }));
+            indexes.sort((i, j) => i.t - j.t);
+            for (let i = 1; i < indexes.length; i++) {
+                let from: number = indexes[i - 1].index, to: number = indexes[i].index;
+                if (from === to) continue;
+                let key: string = Math.min(from, to) + ',' + Math.max(from, to);
+                let edge: OverlayEdge | undefined = edges.get(key);
+                if (edge === undefined) {
+                    let count: number[] = [];
+                    for (let g = 0; g < groups; g++) count.push(0);
+                    edge = {a: Math.min(from, to), b: Math.max(from, to), count: count};
+                    edges.set(key, edge);
+                }
+                edge.count[segment.group] += from < to ? 1 : -1;
+            }
+        }
+        return Array.from(edges.values()).filter(edge => edge.count.some(c => c !== 0));
+    }
+
+    /**
+     * Calculates winding numbers of region on the right side of edge.
+     * Ray is cast from the middle of edge along its right normal and crossings of edges it hits in the index are counted
+     * @param {OverlayEdge} edge
+     * @param {Broadphase.AABBTree<OverlayEdge>} index All edges
+     * @param {PolygonBoolean.Point[]} vertices
+     * @returns {number[]} Winding number of each group
+     * @private
+     */
+    function _RightWinding(edge: OverlayEdge, index: Broadphase.AABBTree<OverlayEdge>, vertices: Point[]): number[] {
+        //http://geomalgorithms.com/a03-_inclusion.html
+        let a: Point = vertices[edge.a], b: Point = vertices[edge.b];
+        let length: number = Math.sqrt((b.x - a.x) * (b.x - a.x) + (b.y - a.y) * (b.y - a.y));
+        let m: Point = {x: (a.x + b.x) / 2, y: (a.y + b.y) / 2};
+        let d: Point = {x: (b.y - a.y) / length, y: -(b.x - a.x) / length};
+
+        let toReturn: number[] = edge.count.map(() => 0);
+        for (let other of index.raycast({origin: m, direction: d})) {
+            if (other === edge) continue;
+            let u: Point = vertices[other.a], v: Point = vertices[other.b];
+
+            //Coordinates in frame where ray is the positive x axis
+            let ux: number = (u.x - m.x) * d.x + (u.y - m.y) * d.y, uy: number = d.x * (u.y - m.y) - d.y * (u.x - m.x);
+            let vx: number = (v.x - m.x) * d.x + (v.y - m.y) * d.y, vy: number = d.x * (v.y - m.y) - d.y * (v.x - m.x);
+            let sign: number;
+            if (uy <= 0 && vy > 0) sign = 1;
+            else if (vy <= 0 && uy > 0) sign = -1;
+            else continue;
+            if (ux + (0 - uy) * (vx - ux) / (vy - uy) <= 0) continue;
+            for (let g = 0; g < toReturn.length; g++) toReturn[g] += sign * other.count[g];
+        }
+        return toReturn;
+    }
+
+    /**
+     * Follows kept edges turning as sharply right as possible, which separates rings touching at vertices
+     * @param {PolygonBoolean.Point[]} vertices
+     * @param {Map<number, number[]>} outgoing Directed edges
+     * @returns {PolygonBoolean.Point[][]}
+     * @private
+     */
+    function _TraceRings(vertices: Point[], outgoing: Map<number, number[]>): Point[][] {
+        let toReturn: Point[][] = [];
+        outgoing.forEach((targets, start) => {
+            while (targets.length > 0) {
+                let ring: number[] = [start];
+                let prev: number = start, current: number = targets.pop()!;
+                while (current !== start) {
+                    ring.push(current);
+                    let candidates: number[] | undefined = outgoing.get(current);
+                    if (candidates === undefined || candidates.length === 0) break;
+
+                    let back: number = Math.atan2(vertices[prev].y - vertices[current].y, vertices[prev].x - vertices[current].x);
+                    let best = 0, bestAngle = Infinity;
+                    for (let i = 0; i < candidates.length; i++) {
+                        let v: Point = vertices[candidates[i]];
+                        let angle: number = back - Math.atan2(v.y - vertices[current].y, v.x - vertices[current].x);
+                        while (angle <= 0) angle += 2 * Math.PI;
+                        while (angle > 2 * Math.PI) angle -= 2 * Math.PI;
+                        if (angle < bestAngle) {
+                            bestAngle = angle;
+                            best = i;
+                        }
+                    }
+                    prev = current;
+                    current = candidates.splice(best, 1)[0];
+                }
+                let points: Point[] = _RemoveCollinear(ring.map(i => ({x: vertices[i].x, y: vertices[i].y})));
+                if (points.length >= 3 && Polygon.GetArea(points) > 0) toReturn.push(points);
+            }
+        });
+        return toReturn;
+    }
+
+    /**
+     * Groups rings into outer rings (positive area) with holes (negative area)
+     * @param {PolygonBoolean.Point[][]} rings
+     * @returns {PolygonBoolean.PolygonWithHoles[]}
+     * @private
+     */
+    function _AssignHoles(rings: Point[][]): PolygonWithHoles[] {
+        let toReturn: PolygonWithHoles[] = [];
+        let holes: Point[][] = [];
+        for (let ring of rings) {
+            if (Polygon.GetArea(ring, true) > 0) toReturn.push({outer: ring, holes: []});
+            else holes.push(ring);
+        }
+
+        //Hole belongs to the smallest outer ring containing it
+        toReturn.sort((a, b) => Polygon.GetArea(a.outer) - Polygon.GetArea(b.outer));
+        for (let hole of holes) {
+            let probe: Point = {x: (hole[0].x + hole[1].x) / 2, y: (hole[0].y + hole[1].y) / 2};
+            for (let polygon of toReturn) {
+                if (Collision2D.PointInsidePolygon(probe, polygon.outer)) {
+                    polygon.holes.push(hole);
+                    break;
+                }
+            }
+        }
+        return toReturn;
+    }
+
+    /**
+     * Calculates proper crossing point of segments pq and rs
+     * @returns {PolygonBoolean.Point | null} Crossing point or null for parallel or separated segments
+     * @private
+     */
+    function _SegmentsCrossing(p: Point, q: Point, r: Point, s: Point, eps: number): Point | null {
+        let rx: number = q.x - p.x, ry: number = q.y - p.y;
+        let sx: number = s.x - r.x, sy: number = s.y - r.y;
+        let denom: number = rx * sy - ry * sx;
+        if (Math.abs(denom) <= eps * eps) return null;
+        let qpx: number = r.x - p.x, qpy: number = r.y - p.y;
+        let t: number = (qpx * sy - qpy * sx) / denom;
+        let u: number = (qpx * ry - qpy * rx) / denom;
+        if (t < 0 || t > 1 || u < 0 || u > 1) return null;
+        return {x: p.x + rx * t, y: p.y + ry * t};
+    }
+
+    /**
+     * Finds vertex lying within tolerance or registers a new one.
+     * Vertices are stored in grid with cell size equal to tolerance, so only neighbouring cells are searched
+     * @returns {number} Index of vertex
+     * @private
+     */
+    function _VertexIndex(point: Point, vertices: Point[], grid: Map<string, number[]>, eps: number): number {
+        let cx: number = Math.floor(point.x / eps), cy: number = Math.floor(point.y / eps);
+        for (let x = cx - 1; x <= cx + 1; x++) {
+            for (let y = cy - 1; y <= cy + 1; y++) {
+                let cell: number[] | undefined = grid.get(x + ',' + y);
+                if (cell === undefined) continue;
+                for (let i of cell) {
+                    if (Math.abs(vertices[i].x - point.x) <= eps && Math.abs(vertices[i].y - point.y) <= eps) return i;
+                }
+            }
+        }
+        vertices.push({x: point.x, y: point.y});
+        let key: string = cx + ',' + cy;
+        if (!grid.has(key)) grid.set(key, []);
+        grid.get(key)!.push(vertices.length - 1);
+        return vertices.length - 1;
+    }
+
+    /**
+     * Calculates distance from point to line segment ab
+     * @private
+     */
+    function _DistanceToSegment(point: Point, a: Point, b: Point): number {
+        let abx: number = b.x - a.x, aby: number = b.y - a.y;
+        let lengthSq: number = abx * abx + aby * aby;
+        let t: number = lengthSq === 0 ? 0 : ((point.x - a.x) * abx + (point.y - a.y) * aby) / lengthSq;
+        t = Math.max(0, Math.min(1, t));
+        let dx: number = a.x + abx * t - point.x, dy: number = a.y + aby * t - point.y;
+        return Math.sqrt(dx * dx + dy * dy);
+    }
+
+    /**
+     * Removes repeated consecutive points (including closing point equal to the first one)
+     * @private
+     */
+    function _Clean(polygon: Point[]): Point[] {
+        let toReturn: Point[] = [];
+        for (let p of polygon) {
+            let last: Point = toReturn[toReturn.length - 1];
+            if (last === undefined || last.x !== p.x || last.y !== p.y) toReturn.push(p);
+        }
+        while (toReturn.length > 1 && toReturn[0].x === toReturn[toReturn.length - 1].x &&
+        toReturn[0].y === toReturn[toReturn.length - 1].y) toReturn.pop();
+        return toReturn;
+    }
+
+    /**
+     * Removes vertices lying on straight line between their neighbours
+     * @private
+     */
+    function _RemoveCollinear(ring: Point[]): Point[] {
+        let eps: number = _Tolerance(ring);
+        let toReturn: Point[] = ring.slice();
+        let changed: boolean = true;
+        while (changed && toReturn.length > 3) {
+            changed = false;
+            for (let i = 0; i < toReturn.length; i++) {
+                let prev: Point = toReturn[(i + toReturn.length - 1) % toReturn.length];
+                let next: Point = toReturn[(i + 1) % toReturn.length];
+                if (_DistanceToSegment(toReturn[i], prev, next) <= eps) {
+                    toReturn.splice(i, 1);
+                    changed = true;
+                    break;
+                }
+            }
+        }
+        return toReturn;
+    }
+
+    /**
+     * Returns bounding box of segment enlarged by tolerance
+     * @private
+     */
+    function _Bounds(p: Point, q: Point, eps: number): Broadphase.AABB {
+        return {
+            minX: Math.min(p.x, q.x) - eps, minY: Math.min(p.y, q.y) - eps,
+            maxX: Math.max(p.x, q.x) + eps, maxY: Math.max(p.y, q.y) + eps
+        };
+    }
+
+    /**
+     * Calculates snapping tolerance relative to coordinates magnitude
+     * @private
+     */
+    function _Tolerance(points: Point[]): number {
+        let max: number = 1;
+        for (let p of points) max = Math.max(max, Math.abs(p.x), Math.abs(p.y));
+        return max * 1e-9;
+    }
+}
@@ -0,0 +1,231 @@
+/**
+ * SPECIFICATION
+ *
+ * 1) POINT:object = {x:number, y:number}
+ * 2) POLYGON:POINT[x>=3] = [POINT, POINT, POINT, ...] (closed, any winding order)
+ * 3) POLYLINE:POINT[x>=2] = [POINT, POINT, ...] (open, closed when the last point equals the first one)
+ * 4) Results are in PolygonBoolean format, offset may remove whole polygon or split it into several parts.
+ *
+ * Offset is computed as union (or difference) of polygon with its stroke, which is built from a rectangle
+ * around every edge and a join piece filling the gap at every corner.
+ */
+namespace PolygonOffset {
+
+    /**
+     * Interface of Point
+     */
+    interface Point {
+        x: number,
+        y: number,
+
+        [propName: string]: any;
+    }
+
+    /**
+     * Interface of offset options
+     * 'miterLimit' is maximum ratio of miter length to offset distance (default 2), longer miters are beveled.
+     * 'arcTolerance' is maximum distance between round arc and its approximation (default 0.25)
+     */
+    export interface OffsetOptions {
+        join?: 'miter' | 'round' | 'bevel',
+        cap?: 'butt' | 'square' | 'round',
+        miterLimit?: number,
+        arcTolerance?: number
+    }
+
+    /**
+     * Grows (positive delta) or shrinks (negative delta) polygon.
+     * Convex corners of grown polygon and concave corners of shrunk polygon are joined using selected join style
+     * @param {PolygonOffset.Point[]} polygon Array of points
+     * @param {number} delta Offset distance
+     * @param {PolygonOffset.OffsetOptions} options Join style, miter limit and arc tolerance
+     * @returns {PolygonBoolean.PolygonWithHoles[]} Zero or more polygons
+     */
+    export function OffsetPolygon(polygon: Point[], delta: number, options?: OffsetOptions): PolygonBoolean.PolygonWithHoles[] {
+        let ring: Point[] = _Clean(polygon);
+        if (ring.length < 3) return [];
+        if (Polygon.GetArea(ring, true) < 0) ring.reverse();
+        let grow: boolean = delta > 0;
+        let r: number = Math.abs(delta);
+        if (r === 0) return PolygonBoolean.Overlay([[ring]], w => w[0] !== 0);
+
+        let stroke: Point[][] = [];
+        for (let i = 0; i < ring.length; i++) {
+            let prev: Point = ring[(i + ring.length - 1) % ring.length], v: Point = ring[i];
+            let next: Point = ring[(i + 1) % ring.length];
+            stroke.push(_EdgeRectangle(v, next, r));
+
+            //Gap opens outside convex corners when growing and inside concave corners when shrinking
+            let turn: number = _TurnAngle(prev, v, next);
+            if (grow ? turn <= 0 : turn >= 0) continue;
+            let normal: Point = _RightNormal(prev, v);
+            if (!grow) normal = {x: -normal.x, y: -normal.y};
+            stroke.push(_Join(v, normal, turn, r, options || {}));
+        }
+
+        if (grow) return PolygonBoolean.Overlay([[ring], stroke], w => w[0] !== 0 || w[1] !== 0);
+        return PolygonBoolean.Overlay([[ring], stroke], w => w[0] !== 0 && w[1] === 0);
+    }
+
+    /**
+     * Creates outline of polyline with given half width
+     * @param {PolygonOffset.Point[]} polyline Array of points
+     * @param {number} delta Half of the outline width (distance from polyline)
+     * @param {PolygonOffset.OffsetOptions} options Join style, cap style, miter limit and arc tolerance
+     * @returns {PolygonBoolean.PolygonWithHoles[]} Zero or more polygons
+     */
+    export function OffsetPolyline(polyline: Point[], delta: number, options?: OffsetOptions): PolygonBoolean.PolygonWithHoles[] {
+        let points: Point[] = _Clean(polyline);
+        let r: number = Math.abs(delta);
+        if (points.length < 2 || r === 0) return [];
+        let opts: OffsetOptions = options || {};
+        let closed: boolean = points.length > 2 && polyline[0].x === polyline[polyline.length - 1].x &&
+            polyline[0].y === polyline[polyline.length - 1].y;
+
+        let stroke: Point[][] = [];
+        let count: number = closed ? points.length : points.length - 1;
+        for (let i = 0; i < count; i++) {
+            let a: Point = points[i], b: Point = points[(i + 1) % points.length];
+            if (!closed && opts.cap === 'square') {
+                let length: number = Math.sqrt((b.x - a.x) * (b.x - a.x) + (b.y - a.y) * (b.y - a.y));
+                let dx: number = (b.x - a.x) / length * r, dy: number = (b.y - a.y) / length * r;
+                if (i === 0) a = {x: a.x - dx, y: a.y - dy};
+                if (i === count - 1) b = {x: b.x + dx, y: b.y + dy};
+            }
+            stroke.push(_EdgeRectangle(a, b, r));
+        }
+
+        //Joins on the outer side of every inner corner
+        for (let i = closed ? 0 : 1; i < (closed ? points.length : points.length - 1); i++) {
+            let prev: Point = points[(i + points.length - 1) % points.length], v: Point = points[i];
+            let next: Point = points[(i + 1) % points.length];
+            let turn: number = _TurnAngle(prev, v, next);
+            if (turn === 0) continue;
+            let normal: Point = _RightNormal(prev, v);
+            if (turn < 0) normal = {x: -normal.x, y: -normal.y};
+            stroke.push(_Join(v, normal, turn, r, opts));
+        }
+
+        if (!closed && opts.cap === 'round') {
+            for (let end of [points[0], points[points.length - 1]]) {
+                stroke.push(_Arc(end, {x: 1, y: 0}, 2 * Math.PI, r, opts.arcTolerance));
+            }
+        }
+
+        return PolygonBoolean.Overlay([stroke], w => w[0] !== 0);
+    }
+
+    /**
+     * Creates counter-clockwise rectangle covering points within distance r from segment ab (without ends)
+     * @private
+     */
+    function _EdgeRectangle(a: Point, b: Point, r: number): Point[] {
+        let n: Point = _RightNormal(a, b);
+        return [
+            {x: a.x + n.x * r, y: a.y + n.y * r},
+            {x: b.x + n.x * r, y: b.y + n.y * r},
+            {x: b.x - n.x * r, y: b.y - n.y * r},
+            {x: a.x - n.x * r, y: a.y - n.y * r}
+        ];
+    }
+
+    /**
+     * Creates join piece at vertex v filling the gap between rectangles of two edges
+     * @param {PolygonOffset.Point} v Corner vertex
+     * @param {PolygonOffset.Point} normal Normal of the first edge pointing into the gap
+     * @param {number} turn Signed angle between edges
+     * @param {number} r Offset distance
+     * @param {PolygonOffset.OffsetOptions} options
+     * @returns {PolygonOffset.Point[]} Counter-clockwise polygon
+     * @private
+     */
+    function _Join(v: Point, normal: Point, turn: number, r: number, options: OffsetOptions): Point[] {
+        if (options.join === 'round') return _Arc(v, normal, turn, r, options.arcTolerance);
+
+        let c: number = Math.cos(turn), s: number = Math.sin(turn);
+        let other: Point = {x: normal.x * c - normal.y * s, y: normal.x * s + normal.y * c};
+        let p1: Point = {x: v.x + normal.x * r, y: v.y + normal.y * r};
+        let p2: Point = {x: v.x + other.x * r, y: v.y + other.y * r};
+        let piece: Point[] = [{x: v.x, y: v.y}, p1];
+
+        //Miter length grows with 1 / cos(turn / 2)
+        let half: number = Math.cos(turn / 2);
+        let limit: number = options.miterLimit === undefined ? 2 : options.miterLimit;
+        if (options.join !== 'bevel' && half > 0 && 1 / half <= limit) {
+            let mx: number = normal.x + other.x, my: number = normal.y + other.y;
+            let length: number = Math.sqrt(mx * mx + my * my);
+            piece.push({x: v.x + mx / length * r / half, y: v.y + my / length * r / half});
+        }
+        piece.push(p2);
+        return _CounterClockwise(piece);
+    }
+
+    /**
+     * Creates circular sector (or full circle) approximated within arc tolerance
+     * @param {PolygonOffset.Point} center
+     * @param {PolygonOffset.Point} start Unit vector of sector start
+     * @param {number} sweep Signed sector angle
+     * @param {number} r Radius
+     * @param {number} tolerance Maximum distance between arc and its approximation
+     * @returns {PolygonOffset.Point[]} Counter-clockwise polygon
+     * @private
+     */
+    function _Arc(center: Point, start: Point, sweep: number, r: number, tolerance?: number): Point[] {
+        let tol: number = tolerance === undefined ? 0.25 : tolerance;
+        let step: number = 2 * Math.acos(Math.max(-1, 1 - tol / r));
+        let steps: number = Math.max(2, Math.ceil(Math.abs(sweep) / step));
+        let full: boolean = Math.abs(sweep) >= 2 * Math.PI;
+        let angle: number = Math.atan2(start.y, start.x);
+
+        let toReturn: Point[] = full ? [] : [{x: center.x, y: center.y}];
+        for (let i = 0; i <= (full ? steps - 1 : steps); i++) {
+            let a: number = angle + sweep * i / steps;
+            toReturn.push({x: center.x + Math.cos(a) * r, y: center.y + Math.sin(a) * r});
+        }
+        return _CounterClockwise(toReturn);
+    }
+
+    /**
+     * Calculates signed angle of turn at vertex v (positive for left turn in standard axes)
+     * @private
+     */
+    function _TurnAngle(prev: Point, v: Point, next: Point): number {
+        let ax: number = v.x - prev.x, ay: number = v.y - prev.y;
+        let bx: number = next.x - v.x, by: number = next.y - v.y;
+        return Math.atan2(ax * by - ay * bx, ax * bx + ay * by);
+    }
+
+    /**
+     * Calculates unit normal on the right side of segment ab (standard axes)
+     * @private
+     */
+    function _RightNormal(a: Point, b: Point): Point {
+        let dx: number = b.x - a.x, dy: number = b.y - a.y;
+        let length: number = Math.sqrt(dx * dx + dy * dy) || 1;
+        return {x: dy / length, y: -dx / length};
+    }
+
+    /**
+     * Reverses ring when it is ordered clockwise
+     * @private
+     */
+    function _CounterClockwise(ring: Point[]): Point[] {
+        if (Polygon.GetArea(ring, true) < 0) ring.reverse();
+        return ring;
+    }
+
+    /**
+     * Removes repeated consecutive points (including closing point equal to the first one)
+     * @private
+     */
+    function _Clean(points: Point[]): Point[] {
+        let toReturn: Point[] = [];
+        for (let p of points) {
+            let last: Point = toReturn[toReturn.length - 1];
+            if (last === undefined || last.x !== p.x || last.y !== p.y) toReturn.push({x: p.x, y: p.y});
+        }
+        while (toReturn.length > 1 && toReturn[0].x === toReturn[toReturn.length - 1].x &&
+        toReturn[0].y === toReturn[toReturn.length - 1].y) toReturn.pop();
+        return toReturn;
+    }
+}
@@ -0,0 +1,484 @@
+/**
+ * SPECIFICATION
+ *
+ * 1) POINT:object = {x:number, y:number}
+ * 2) POLYGON:POINT[x>=3] = [POINT, POINT, POINT, ...] (closing point is never repeated)
+ * 3) Polygons with holes use PolygonBoolean format, outer ring has positive signed area (Polygon.GetArea) and
+ * holes have negative one. Writers enforce that order, GeoJSON output follows right-hand rule of RFC 7946.
+ * 4) SVG curves and arcs are flattened into line segments, maximum distance between curve and its
+ * approximation is given by tolerance (default 0.25).
+ */
+namespace PolygonSerialization {
+
+    /**
+     * Interface of Point
+     */
+    interface Point {
+        x: number,
+        y: number,
+
+        [propName: string]: any;
+    }
+
+    /**
+     * Interface of GeoJSON Polygon geometry
+     */
+    export interface GeoJSONPolygon {
+        type: 'Polygon',
+        coordinates: number[][][]
+    }
+
+    /**
+     * Interface of GeoJSON MultiPolygon geometry
+     */
+    export interface GeoJSONMultiPolygon {
+        type: 'MultiPolygon',
+        coordinates: number[][][][]
+    }
+
+    /**
+     * Interface of GeoJSON GeometryCollection
+     */
+    export interface GeoJSONGeometryCollection {
+        type: 'GeometryCollection',
+        geometries: GeoJSONGeometry[]
+    }
+
+    /**
+     * Interface of GeoJSON Feature
+     */
+    export interface GeoJSONFeature {
+        type: 'Feature',
+        geometry: GeoJSONGeometry | null,
+        properties?: { [key: string]: unknown } | null
+    }
+
+    /**
+     * Interface of GeoJSON FeatureCollection
+     */
+    export interface GeoJSONFeatureCollection {
+        type: 'FeatureCollection',
+        features: GeoJSONFeature[]
+    }
+
+    /**
+     * Type of GeoJSON geometries containing polygons
+     */
+    export type GeoJSONGeometry = GeoJSONPolygon | GeoJSONMultiPolygon | GeoJSONGeometryCollection;
+
+    /**
+     * Type of GeoJSON objects read by FromGeoJSON
+     */
+    export type GeoJSON = GeoJSONGeometry | GeoJSONFeature | GeoJSONFeatureCollection;
+
+    /**
+     * Type of parsed WKT list, positions are lists of numbers
+     */
+    type WKTList = Array<number | WKTList>;
+
+    /**
+     * Parses SVG path data (the 'd' attribute) into array of subpaths
+     * @param {string} d Path data
+     * @param {number} tolerance Maximum distance between curve and its flattened approximation
+     * @returns {PolygonSerialization.Point[][]} Subpaths, closing point of closed ones is not repeated
+     */
+    export function FromSVGPath(d: string, tolerance?: number): Point[][] {
+        //https://www.w3.org/TR/SVG11/paths.html#PathDataBNF
+        if (tolerance === undefined) tolerance = 0.25;
+        let scanner = _Scanner(d);
+        let subpaths: Point[][] = [];
+        let current: Point[] = [];
+        let pen: Point = {x: 0, y: 0}, start: Point = {x: 0, y: 0};
+        let control: Point | null = null, command: string = '';
+
+        const finish = (): void => {
+            if (current.length > 1) subpaths.push(current);
+            current = [];
+        };
+        const lineTo = (p: Point): void => {
+            if (current.length === 0) current.push({x: pen.x, y: pen.y});
+            current.push(p);
+            pen = p;
+        };
+
+        while (!scanner.done()) {
+            let letter: string | null = scanner.command();
+            if (letter !== null) command = letter;
+            else if (command === '') throw new Error('SVG path data has to start with a command');
+            let relative: boolean = command === command.toLowerCase();
+            let ox: number = relative ? pen.x : 0, oy: number = relative ? pen.y : 0;
+            let previous: Point | null = control;
+            control = null;
+
+            switch (command.toUpperCase()) {
+                case 'M':
+                    finish();
+                    pen = {x: ox + scanner.number(), y: oy + scanner.number()};
+                    start = pen;
+                    //Following coordinate pairs are implicit line commands
+                    command = relative ? 'l' : 'L';
+                    break;
+                case 'L':
+                    lineTo({x: ox + scanner.number(), y: oy + scanner.number()});
+                    break;
+                case 'H':
+                    lineTo({x: ox + scanner.number(), y: pen.y});
+                    break;
+                case 'V':
+                    lineTo({x: pen.x, y: oy + scanner.number()});
+                    break;
+                case 'C':
+                case 'S': {
+                    let c1: Point = command.toUpperCase() === 'S'
+                        ? (previous !== null && /[CcSs]/.test(scanner.last) ? {x: 2 * pen.x - previous.x, y: 2 * pen.y - previous.y} : pen)
+                        : {x: ox + scanner.number(), y: oy + scanner.number()};
+                    let c2: Point = {x: ox + scanner.number(), y: oy + scanner.number()};
+                    let end: Point = {x: ox + scanner.number(), y: oy + scanner.number()};
+                    for (let p of _FlattenCubic(pen, c1, c2, end, tolerance)) lineTo(p);
+                    control = c2;
+                    break;
+                }
+                case 'Q':
+                case 'T': {
+                    let c: Point = command.toUpperCase() === 'T'
+                        ? (previous !== null && /[QqTt]/.test(scanner.last) ? {x: 2 * pen.x - previous.x, y: 2 * pen.y - previous.y} : pen)
+                        : {x: ox + scanner.number(), y: oy + scanner.number()};
+                    let end: Point = {x: ox + scanner.number(), y: oy + scanner.number()};
+                    //Quadratic curve is elevated to cubic one
+                    let c1: Point = {x: pen.x + 2 / 3 * (c.x - pen.x), y: pen.y + 2 / 3 * (c.y - pen.y)};
+                    let c2: Point = {x: end.x + 2 / 3 * (c.x - end.x), y: end.y + 2 / 3 * (c.y - end.y)};
+                    for (let p of _FlattenCubic(pen, c1, c2, end, tolerance)) lineTo(p);
+                    control = c;
+                    break;
+                }
+                case 'A': {
+                    let rx: number = scanner.number(), ry: number = scanner.number(), rotation: number = scanner.number();
+                    let largeArc: boolean = scanner.flag(), sweep: boolean = scanner.flag();
+                    let end: Point = {x: ox + scanner.number(), y: oy + scanner.number()};
+                    for (let p of _FlattenArc(pen, rx, ry, rotation, largeArc, sweep, end, tolerance)) lineTo(p);
+                    break;
+                }
+                case 'Z':
+                    if (current.length > 1) {
+                        let first: Point = current[0], last: Point = current[current.length - 1];
+                        if (first.x === last.x && first.y === last.y) current.pop();
+                    }
+                    finish();
+                    pen = start;
+                    break;
+                default:
+                    throw new Error(`Unknown SVG path command '${command}'`);
+            }
+            scanner.last = command;
+        }
+        finish();
+        return subpaths;
+    }
+
+    /**
+     * Parses 'points' attribute of SVG polygon or polyline element
+     * @param {string} points List of coordinates
+     * @returns {PolygonSerialization.Point[]}
+     */
+    export function FromSVGPoints(points: string): Point[] {
+        let scanner = _Scanner(points);
+        let toReturn: Point[] = [];
+        while (!scanner.done()) toReturn.push({x: scanner.number(), y: scanner.number()});
+        return toReturn;
+    }
+
+    /**
+     * Writes polygons as SVG path data, every polygon is a closed subpath
+     * @param {PolygonSerialization.Point[][]} polygons Array of polygons (outer rings and holes)
+     * @param {number} precision Maximum number of decimal places
+     * @returns {string}
+     */
+    export function ToSVGPath(polygons: Point[][], precision?: number): string {
+        return polygons
+            .filter(polygon => polygon.length > 0)
+            .map(polygon => polygon.map((p, i) => `${i === 0 ? 'M' : 'L'}${_Format(p.x, precision)} ${_Format(p.y, precision)}`).join(' ') + ' Z')
+            .join(' ');
+    }
+
+    /**
+     * Writes polygon as 'points' attribute of SVG polygon element
+     * @param {PolygonSerialization.Point[]} polygon
+     * @param {number} precision Maximum number of decimal places
+     * @returns {string}
+     */
+    export function ToSVGPoints(polygon: Point[], precision?: number): string {
+        return polygon.map(p => `${_Format(p.x, precision)},${_Format(p.y, precision)}`).join(' ');
+    }
+
+    /**
+     * Reads polygons from GeoJSON Polygon or MultiPolygon geometry (also wrapped in Feature or FeatureCollection)
+     * @param {string | PolygonSerialization.GeoJSON} geojson GeoJSON text or parsed object
+     * @returns {PolygonBoolean.PolygonWithHoles[]}
+     */
+    export function FromGeoJSON(geojson: string | GeoJSON): PolygonBoolean.PolygonWithHoles[] {
+        let object: GeoJSON | null = typeof geojson === 'string' ? JSON.parse(geojson) : geojson;
+        if (object === null) throw new Error('Unsupported GeoJSON type \'null\'');
+        let type: string = object.type;
+        switch (object.type) {
+            case 'FeatureCollection':
+                return object.features.reduce((all: PolygonBoolean.PolygonWithHoles[], feature) => all.concat(FromGeoJSON(feature)), []);
+            case 'Feature':
+                return object.geometry ? FromGeoJSON(object.geometry) : [];
+            case 'GeometryCollection':
+                return object.geometries.reduce((all: PolygonBoolean.PolygonWithHoles[], geometry) => all.concat(FromGeoJSON(geometry)), []);
+            case 'Polygon':
+                return object.coordinates.length > 0 ? [_FromRings(object.coordinates)] : [];
+            case 'MultiPolygon':
+                return object.coordinates.filter(rings => rings.length > 0).map(rings => _FromRings(rings));
+            default:
+                throw new Error(`Unsupported GeoJSON type '${type}'`);
+        }
+    }
+
+    /**
+     * Writes polygons as GeoJSON geometry, Polygon for single polygon and MultiPolygon otherwise
+     * @param {PolygonBoolean.PolygonWithHoles[]} polygons
+     * @returns {PolygonSerialization.GeoJSONPolygon | PolygonSerialization.GeoJSONMultiPolygon}
+     */
+    export function ToGeoJSON(polygons: PolygonBoolean.PolygonWithHoles[]): GeoJSONPolygon | GeoJSONMultiPolygon {
+        let coordinates: number[][][][] = polygons.map(polygon => _ToRings(polygon).map(ring => {
+            let positions: number[][] = ring.map(p => [p.x, p.y]);
+            positions.push(positions[0].slice());
+            return positions;
+        }));
+        if (coordinates.length === 1) return {type: 'Polygon', coordinates: coordinates[0]};
+        return {type: 'MultiPolygon', coordinates: coordinates};
+    }
+
+    /**
+     * Reads polygons from WKT POLYGON or MULTIPOLYGON (Z and M coordinates are ignored)
+     * @param {string} wkt Well-known text
+     * @returns {PolygonBoolean.PolygonWithHoles[]}
+     */
+    export function FromWKT(wkt: string): PolygonBoolean.PolygonWithHoles[] {
+        //https://www.ogc.org/standards/sfa
+        let match: RegExpMatchArray | null = wkt.trim().match(/^(MULTIPOLYGON|POLYGON)\s*(?:ZM|Z|M)?\s*(EMPTY|\([\s\S]*\))$/i);
+        if (match === null) throw new Error('Unsupported WKT geometry');
+        if (match[2].toUpperCase() === 'EMPTY') return [];
+
+        let tokens: string[] = match[2].match(/\(|\)|,|[^\s(),]+/g) || [];
+        let index = 0;
+        const parseList = (): WKTList => {
+            if (tokens[index] !== '(') throw new Error(`Unexpected WKT token '${tokens[index]}'`);
+            index++;
+            let items: WKTList = [];
+            while (tokens[index] !== ')') {
+                if (tokens[index] === '(') items.push(parseList());
+                else if (tokens[index] === 'EMPTY' || tokens[index] === 'empty') index++;
+                else {
+                    //Coordinates of one position are separated by whitespace
+                    let position: number[] = [];
+                    while (tokens[index] !== ',' && tokens[index] !== ')') position.push(_ParseNumber(tokens[index++]));
+                    items.push(position);
+                }
+                if (tokens[index] === ',') index++;
+                else if (tokens[index] !== ')') throw new Error('Unterminated WKT list');
+            }
+            index++;
+            return items;
+        };
+
+        let list: WKTList = parseList();
+        if (match[1].toUpperCase() === 'POLYGON') return list.length > 0 ? [_FromRings(_WKTRings(list))] : [];
+        return list.map(rings => _WKTRings(_WKTList(rings))).filter(rings => rings.length > 0).map(rings => _FromRings(rings));
+    }
+
+    /**
+     * Writes polygons as WKT, POLYGON for single polygon and MULTIPOLYGON otherwise
+     * @param {PolygonBoolean.PolygonWithHoles[]} polygons
+     * @param {number} precision Maximum number of decimal places
+     * @returns {string}
+     */
+    export function ToWKT(polygons: PolygonBoolean.PolygonWithHoles[], precision?: number): string {
+        let bodies: string[] = polygons.map(polygon => '(' + _ToRings(polygon).map(ring => {
+            let positions: string[] = ring.map(p => `${_Format(p.x, precision)} ${_Format(p.y, precision)}`);
+            positions.push(positions[0]);
+            return '(' + positions.join(', ') + ')';
+        }).join(', ') + ')');
+        if (bodies.length === 0) return 'MULTIPOLYGON EMPTY';
+        if (bodies.length === 1) return 'POLYGON ' + bodies[0];
+        return 'MULTIPOLYGON (' + bodies.join(', ') + ')';
+    }
+
+    /**
+     * Creates polygon with holes from list of closed rings (positions as arrays)
+     * @private
+     */
+    function _FromRings(rings: number[][][]): PolygonBoolean.PolygonWithHoles {
+        let points: Point[][] = rings.map(ring => {
+            let toReturn: Point[] = ring.map(position => ({x: position[0], y: position[1]}));
+            let first: Point = toReturn[0], last: Point = toReturn[toReturn.length - 1];
+            if (toReturn.length > 1 && first.x === last.x && first.y === last.y) toReturn.pop();
+            return toReturn;
+        });
+        return {outer: points[0], holes: points.slice(1)};
+    }
+
+    /**
+     * Checks that item of parsed WKT is a list
+     * @private
+     */
+    function _WKTList(item: number | WKTList): WKTList {
+        if (typeof item === 'number') throw new Error('Expected WKT list, got number');
+        return item;
+    }
+
+    /**
+     * Converts parsed WKT list of rings into positions
+     * @private
+     */
+    function _WKTRings(list: WKTList): number[][][] {
+        return list.map(ring => _WKTList(ring).map(position => _WKTList(position).map(coordinate => {
+            if (typeof coordinate !== 'number') throw new Error('Expected WKT coordinate, got list');
+            return coordinate;
+        })));
+    }
+
+    /**
+     * Returns copies of polygon's rings, outer one with positive signed area and holes with negative one
+     * @private
+     */
+    function _ToRings(polygon: PolygonBoolean.PolygonWithHoles): Point[][] {
+        let outer: Point[] = polygon.outer.slice();
+        Polygon.SetWinding(outer, true);
+        return [outer].concat(polygon.holes.map(hole => {
+            let toReturn: Point[] = hole.slice();
+            Polygon.SetWinding(toReturn, false);
+            return toReturn;
+        }));
+    }
+
+    /**
+     * Flattens cubic bezier curve by recursive subdivision, start point is not included
+     * @private
+     */
+    function _FlattenCubic(p0: Point, p1: Point, p2: Point, p3: Point, tolerance: number, depth?: number): Point[] {
+        if (depth === undefined) depth = 0;
+        //Curve lies inside convex hull of its control points
+        let flat: boolean = Math.max(_DistanceToLine(p1, p0, p3), _DistanceToLine(p2, p0, p3)) <= tolerance;
+        if (flat || depth >= 16) return [{x: p3.x, y: p3.y}];
+
+        const mid = (a: Point, b: Point): Point => ({x: (a.x + b.x) / 2, y: (a.y + b.y) / 2});
+        let p01: Point = mid(p0, p1), p12: Point = mid(p1, p2), p23: Point = mid(p2, p3);
+        let p012: Point = mid(p01, p12), p123: Point = mid(p12, p23);
+        let center: Point = mid(p012, p123);
+        return _FlattenCubic(p0, p01, p012, center, tolerance, depth + 1)
+            .concat(_FlattenCubic(center, p123, p23, p3, tolerance, depth + 1));
+    }
+
+    /**
+     * Flattens SVG elliptical arc, start point is not included
+     * @private
+     */
+    function _FlattenArc(from: Point, rx: number, ry: number, rotation: number, largeArc: boolean, sweep: boolean, to: Point, tolerance: number): Point[] {
+        //https://www.w3.org/TR/SVG11/implnote.html#ArcImplementationNotes
+        rx = Math.abs(rx);
+        ry = Math.abs(ry);
+        if (rx === 0 || ry === 0 || (from.x === to.x && from.y === to.y)) return [{x: to.x, y: to.y}];
+        let phi: number = rotation * Math.PI / 180;
+        let cos: number = Math.cos(phi), sin: number = Math.sin(phi);
+        let dx: number = (from.x - to.x) / 2, dy: number = (from.y - to.y) / 2;
+        let x1: number = cos * dx + sin * dy, y1: number = -sin * dx + cos * dy;
+
+        //Too small radii are scaled up
+        let lambda: number = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+        if (lambda > 1) {
+            rx *= Math.sqrt(lambda);
+            ry *= Math.sqrt(lambda);
+        }
+        let numerator: number = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+        let denominator: number = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+        let factor: number = Math.sqrt(Math.max(0, numerator / denominator)) * (largeArc === sweep ? -1 : 1);
+        let cx1: number = factor * rx * y1 / ry, cy1: number = -factor * ry * x1 / rx;
+        let cx: number = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+        let cy: number = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+        let theta: number = Math.atan2((y1 - cy1) / ry, (x1 - cx1) / rx);
+        let delta: number = Math.atan2((-y1 - cy1) / ry, (-x1 - cx1) / rx) - theta;
+        if (sweep && delta < 0) delta += 2 * Math.PI;
+        if (!sweep && delta > 0) delta -= 2 * Math.PI;
+
+        let radius: number = Math.max(rx, ry);
+        let step: number = 2 * Math.acos(Math.max(-1, 1 - tolerance / radius));
+        let steps: number = Math.max(1, Math.ceil(Math.abs(delta) / step));
+        let toReturn: Point[] = [];
+        for (let i = 1; i < steps; i++) {
+            let angle: number = theta + delta * i / steps;
+            let ex: number = rx * Math.cos(angle), ey: number = ry * Math.sin(angle);
+            toReturn.push({x: cos * ex - sin * ey + cx, y: sin * ex + cos * ey + cy});
+        }
+        toReturn.push({x: to.x, y: to.y});
+        return toReturn;
+    }
+
+    /**
+     * Calculates distance from point p to line going through a and b
+     * @private
+     */
+    function _DistanceToLine(p: Point, a: Point, b: Point): number {
+        let dx: number = b.x - a.x, dy: number = b.y - a.y;
+        let length: number = Math.sqrt(dx * dx + dy * dy);
+        if (length === 0) return Math.sqrt((p.x - a.x) * (p.x - a.x) + (p.y - a.y) * (p.y - a.y));
+        return Math.abs((p.x - a.x) * dy - (p.y - a.y) * dx) / length;
+    }
+
+    /**
+     * Creates scanner reading commands, numbers and flags of SVG attributes
+     * @private
+     */
+    function _Scanner(text: string) {
+        let index = 0;
+        const skip = (): void => {
+            while (index < text.length && /[\s,]/.test(text[index])) index++;
+        };
+        return {
+            last: '',
+            done(): boolean {
+                skip();
+                return index >= text.length;
+            },
+            command(): string | null {
+                skip();
+                if (!/[MmZzLlHhVvCcSsQqTtAa]/.test(text[index])) return null;
+                return text[index++];
+            },
+            number(): number {
+                skip();
+                let match: RegExpExecArray | null = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/.exec(text.slice(index));
+                if (match === null) throw new Error(`Expected number at position ${index}`);
+                index += match[0].length;
+                return parseFloat(match[0]);
+            },
+            flag(): boolean {
+                //Flags may be written without separators, e.g. 'a1 1 0 011 1'
+                skip();
+                if (text[index] !== '0' && text[index] !== '1') throw new Error(`Expected flag at position ${index}`);
+                return text[index++] === '1';
+            }
+        };
+    }
+
+    /**
+     * Parses number throwing error on invalid input
+     * @private
+     */
+    function _ParseNumber(text: string): number {
+        let value: number = Number(text);
+        if (text === undefined || isNaN(value)) throw new Error(`Expected number, got '${text}'`);
+        return value;
+    }
+
+    /**
+     * Formats number with given maximum number of decimal places
+     * @private
+     */
+    function _Format(value: number, precision?: number): string {
+        if (precision === undefined) return String(value);
+        return String(parseFloat(value.toFixed(precision)));
+    }
+}
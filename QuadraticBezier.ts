@@ -0,0 +1,75 @@
+/// <reference path="Curve.ts" />
+
+/**
+ * Quadratic Bezier curve with start point p0, control point p1 and end point p2
+ */
+class QuadraticBezier extends Curve {
+    public p0: Vector2;
+    public p1: Vector2;
+    public p2: Vector2;
+
+    constructor(p0: Vector2, p1: Vector2, p2: Vector2) {
+        super();
+        this.p0 = p0;
+        this.p1 = p1;
+        this.p2 = p2;
+        return this;
+    }
+
+    public getPoint(t: number): Vector2 {
+        let mt: number = 1 - t;
+        let x = mt * mt * this.p0.x + 2 * mt * t * this.p1.x + t * t * this.p2.x;
+        let y = mt * mt * this.p0.y + 2 * mt * t * this.p1.y + t * t * this.p2.y;
+        return new Vector2(x, y);
+    }
+
+    public getDerivative(t: number): Vector2 {
+        let x = 2 * (1 - t) * (this.p1.x - this.p0.x) + 2 * t * (this.p2.x - this.p1.x);
+        let y = 2 * (1 - t) * (this.p1.y - this.p0.y) + 2 * t * (this.p2.y - this.p1.y);
+        return new Vector2(x, y);
+    }
+
+    /**
+     * Splits curve at parameter t (de Casteljau's algorithm)
+     * @param {number} t
+     * @returns {QuadraticBezier[]}
+     */
+    public split(t: number): QuadraticBezier[] {
+        let a: Vector2 = Vector2.Lerp(this.p0, this.p1, t), b: Vector2 = Vector2.Lerp(this.p1, this.p2, t);
+        let middle: Vector2 = Vector2.Lerp(a, b, t);
+        return [
+            new QuadraticBezier(this.p0.clone(), a, middle),
+            new QuadraticBezier(middle.clone(), b, this.p2.clone())
+        ];
+    }
+
+    /**
+     * Calculates exact bounding box using extremes where derivative is zero
+     * @returns {{minX: number, minY: number, maxX: number, maxY: number}}
+     */
+    public getBounds(): { minX: number, minY: number, maxX: number, maxY: number } {
+        let points: Vector2[] = [this.p0, this.p2];
+        const axes: Array<'x' | 'y'> = ['x', 'y'];
+        for (let axis of axes) {
+            let a: number = this.p0[axis], b: number = this.p1[axis], c: number = this.p2[axis];
+            let denominator: number = a - 2 * b + c;
+            if (denominator === 0) continue;
+            let t: number = (a - b) / denominator;
+            if (t > 0 && t < 1) points.push(this.getPoint(t));
+        }
+        return Polygon.GetBounds(points);
+    }
+
+    /**
+     * Converts curve to cubic Bezier with the same shape
+     * @returns {CubicBezier}
+     */
+    public toCubic(): CubicBezier {
+        return new CubicBezier(
+            this.p0.clone(),
+            Vector2.Lerp(this.p0, this.p1, 2 / 3),
+            Vector2.Lerp(this.p2, this.p1, 2 / 3),
+            this.p2.clone()
+        );
+    }
+}
@@ -0,0 +1,256 @@
+/**
+ * Seedable pseudo-random number generator (xoshiro128**).
+ * The same seed always produces the same sequence, state can be saved and restored at any moment.
+ * Math.randomInt, Math.randomFloat, Math.generateUUID and Vector2.setRandomDirection accept its instance.
+ */
+class Random {
+    private _state: Uint32Array;
+    private _spare: number | null;
+
+    constructor(seed?: number | string) {
+        //https://prng.di.unimi.it/xoshiro128starstar.c
+        this._state = new Uint32Array(4);
+        this._spare = null;
+        this.setSeed(seed === undefined ? Math.random() * 0xffffffff : seed);
+        return this;
+    }
+
+    /**
+     * Creates generator continuing from saved state
+     * @param {number[]} state Value returned by getState
+     * @returns {Random}
+     */
+    public static FromState(state: number[]): Random {
+        return new Random(0).setState(state);
+    }
+
+    /**
+     * Resets generator to the beginning of sequence of given seed
+     * @param {number | string} seed
+     */
+    public setSeed(seed: number | string): Random {
+        let hash: number = 0;
+        if (typeof seed === 'string') {
+            //FNV-1a
+            hash = 0x811c9dc5;
+            for (let i = 0; i < seed.length; i++) hash = Math.imul(hash ^ seed.charCodeAt(i), 0x01000193);
+        } else hash = seed >>> 0 ^ Math.floor(seed / 0x100000000);
+
+        //splitmix32 spreads the seed over all state words, so state is never zero
+        for (let i = 0; i < 4; i++) {
+            hash = hash + 0x9e3779b9 | 0;
+            let z: number = hash;
+            z = Math.imul(z ^ z >>> 16, 0x85ebca6b);
+            z = Math.imul(z ^ z >>> 13, 0xc2b2ae35);
+            this._state[i] = z ^ z >>> 16;
+        }
+        this._spare = null;
+        return this;
+    }
+
+    /**
+     * Returns copy of generator state
+     * @returns {number[]}
+     */
+    public getState(): number[] {
+        let state: number[] = Array.from(this._state);
+        if (this._spare !== null) state.push(this._spare);
+        return state;
+    }
+
+    /**
+     * Restores state returned by getState
+     * @param {number[]} state
+     */
+    public setState(state: number[]): Random {
+        if (state.length < 4 || (state[0] | state[1] | state[2] | state[3]) === 0) throw new Error('Invalid state of random generator');
+        this._state.set(state.slice(0, 4));
+        this._spare = state.length > 4 ? state[4] : null;
+        return this;
+    }
+
+    /**
+     * Returns a new Random with the same state as this one.
+     * @returns {Random}
+     */
+    public clone(): Random {
+        return Random.FromState(this.getState());
+    }
+
+    /**
+     * Returns random unsigned 32-bit integer
+     * @returns {number}
+     */
+    public nextUint32(): number {
+        let s: Uint32Array = this._state;
+        let result: number = Math.imul(this._rotl(Math.imul(s[1], 5), 7), 9) >>> 0;
+        let t: number = s[1] << 9;
+        s[2] ^= s[0];
+        s[3] ^= s[1];
+        s[1] ^= s[2];
+        s[0] ^= s[3];
+        s[2] ^= t;
+        s[3] = this._rotl(s[3], 11);
+        return result;
+    }
+
+    /**
+     * Returns random floating point number in range [0, 1), replacement of Math.random
+     * @returns {number}
+     */
+    public next(): number {
+        return this.nextUint32() / 0x100000000;
+    }
+
+    /**
+     * Returns a random integer in a specific range
+     * @param {number} min Minimum value (inclusive)
+     * @param {number} max Maximum value (inclusive)
+     * @returns {number}
+     */
+    public int(min: number, max: number): number {
+        return Math.floor(this.next() * (max - min + 1)) + min;
+    }
+
+    /**
+     * Returns a random floating point number in a specific range
+     * @param {number} low Minimum value (inclusive)
+     * @param {number} high Maximum value (exclusive)
+     * @returns {number}
+     */
+    public float(low: number, high: number): number {
+        return low + this.next() * (high - low);
+    }
+
+    /**
+     * Returns true with given probability
+     * @param {number} probability (default 0.5)
+     * @returns {boolean}
+     */
+    public bool(probability?: number): boolean {
+        return this.next() < (probability === undefined ? 0.5 : probability);
+    }
+
+    /**
+     * Returns normally distributed number (Box-Muller transform)
+     * @param {number} mean (default 0)
+     * @param {number} standardDeviation (default 1)
+     * @returns {number}
+     */
+    public gaussian(mean?: number, standardDeviation?: number): number {
+        let z: number;
+        if (this._spare !== null) {
+            z = this._spare;
+            this._spare = null;
+        } else {
+            let u: number = 1 - this.next(), v: number = this.next();
+            let r: number = Math.sqrt(-2 * Math.log(u));
+            z = r * Math.cos(2 * Math.PI * v);
+            this._spare = r * Math.sin(2 * Math.PI * v);
+        }
+        return (mean || 0) + z * (standardDeviation === undefined ? 1 : standardDeviation);
+    }
+
+    /**
+     * Returns exponentially distributed number
+     * @param {number} rate Lambda parameter, mean of distribution is 1 / rate (default 1)
+     * @returns {number}
+     */
+    public exponential(rate?: number): number {
+        return -Math.log(1 - this.next()) / (rate === undefined ? 1 : rate);
+    }
+
+    /**
+     * Returns random element of array
+     * @param {T[]} items
+     * @returns {T}
+     */
+    public choice<T>(items: T[]): T {
+        if (items.length === 0) throw new Error('Unable to choose from empty array');
+        return items[Math.floor(this.next() * items.length)];
+    }
+
+    /**
+     * Returns random element, probability of each element is proportional to its weight
+     * @param {T[]} items
+     * @param {number[]} weights Non-negative weights, one per item
+     * @returns {T}
+     */
+    public weightedChoice<T>(items: T[], weights: number[]): T {
+        if (items.length === 0 || items.length !== weights.length) throw new Error('Weighted choice expects one weight per item');
+        let total: number = weights.reduce((sum, w) => sum + w, 0);
+        if (!(total > 0)) throw new Error('Sum of weights has to be positive');
+        let threshold: number = this.next() * total;
+        for (let i = 0; i < items.length; i++) {
+            threshold -= weights[i];
+            if (threshold < 0) return items[i];
+        }
+        return items[items.length - 1];
+    }
+
+    /**
+     * Shuffles array in place (Fisher-Yates)
+     * @param {T[]} array
+     * @returns {T[]} The same array
+     */
+    public shuffle<T>(array: T[]): T[] {
+        for (let i = array.length - 1; i > 0; i--) {
+            let j: number = Math.floor(this.next() * (i + 1));
+            let temp: T = array[i];
+            array[i] = array[j];
+            array[j] = temp;
+        }
+        return array;
+    }
+
+    /**
+     * Returns random vector of length 1
+     * @returns {Vector2}
+     */
+    public unitVector(): Vector2 {
+        let angle: number = this.next() * 2 * Math.PI;
+        return new Vector2(Math.cos(angle), Math.sin(angle));
+    }
+
+    /**
+     * Returns uniformly distributed random point inside circle
+     * @param {{x: number, y: number}} center
+     * @param {number} radius
+     * @returns {Vector2}
+     */
+    public pointInCircle(center: { x: number, y: number }, radius: number): Vector2 {
+        //Square root keeps density uniform, otherwise points gather near the center
+        let r: number = radius * Math.sqrt(this.next());
+        let angle: number = this.next() * 2 * Math.PI;
+        return new Vector2(center.x + Math.cos(angle) * r, center.y + Math.sin(angle) * r);
+    }
+
+    /**
+     * Returns uniformly distributed random point inside polygon (also concave one)
+     * @param {Array<{x: number, y: number}>} polygon
+     * @returns {Vector2}
+     */
+    public pointInPolygon(polygon: Array<{ x: number, y: number, [propName: string]: any }>): Vector2 {
+        let triangles: number[][] = Triangulation.EarClipping(polygon);
+        if (triangles.length === 0) throw new Error('Unable to pick point inside degenerate polygon');
+        let areas: number[] = triangles.map(t => Polygon.GetArea([polygon[t[0]], polygon[t[1]], polygon[t[2]]]));
+        let triangle: number[] = this.weightedChoice(triangles, areas);
+        let a = polygon[triangle[0]], b = polygon[triangle[1]], c = polygon[triangle[2]];
+
+        //Point outside of the parallelogram half is mirrored back into triangle
+        let u: number = this.next(), v: number = this.next();
+        if (u + v > 1) {
+            u = 1 - u;
+            v = 1 - v;
+        }
+        return new Vector2(a.x + (b.x - a.x) * u + (c.x - a.x) * v, a.y + (b.y - a.y) * u + (c.y - a.y) * v);
+    }
+
+    /**
+     * Rotates 32-bit integer left
+     * @private
+     */
+    private _rotl(x: number, k: number): number {
+        return x << k | x >>> 32 - k;
+    }
+}
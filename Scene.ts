@@ -0,0 +1,154 @@
+/**
+ * Scene graph drawn on canvas, routes pointer from Input to nodes.
+ * 'pointerenter' and 'pointerleave' are called on every node entered or left (like DOM, they don't bubble),
+ * 'click' is called on node where primary button (or touch) was pressed and released, it bubbles to its ancestors.
+ * Camera (optional) maps screen pointer to world coordinates and is applied before drawing.
+ */
+class Scene {
+    public root: SceneNode;
+    public camera: Camera | null;
+    private _canvas: Canvas;
+    private _input: Input | null;
+    private _hovered: SceneNode | null;
+    private _pressed: SceneNode | null;
+
+    constructor(canvas: Canvas, input?: Input, camera?: Camera) {
+        this.root = new SceneNode('root');
+        this.camera = camera || null;
+        this._canvas = canvas;
+        this._input = input || null;
+        this._hovered = null;
+        this._pressed = null;
+        return this;
+    }
+
+    /**
+     * Adds node to root
+     * @param {SceneNode} node
+     */
+    public add(node: SceneNode): Scene {
+        this.root.add(node);
+        return this;
+    }
+
+    /**
+     * Removes node from root
+     * @param {SceneNode} node
+     */
+    public remove(node: SceneNode): Scene {
+        this.root.remove(node);
+        return this;
+    }
+
+    /**
+     * Converts screen point to world coordinates using camera
+     * @param {Vector2} point
+     * @returns {Vector2}
+     */
+    public screenToWorld(point: Vector2): Vector2 {
+        return this.camera !== null ? this.camera.screenToWorld(point) : point.clone();
+    }
+
+    /**
+     * Returns topmost node under screen point
+     * @param {Vector2} point Point in canvas drawing coordinates
+     * @returns {SceneNode | null}
+     */
+    public pick(point: Vector2): SceneNode | null {
+        return this.root.pick(this.screenToWorld(point));
+    }
+
+    /**
+     * Updates hovered node and dispatches clicks from input state, call once per frame before Input.update
+     */
+    public update(): Scene {
+        if (this._input === null) return this;
+        this._hover(this._input.pointer);
+        //Like DOM click, press and release of primary button must happen over the same node
+        if (this._input.wasPressed('Pointer0')) this._pressed = this._hovered;
+        if (this._input.wasReleased('Pointer0')) {
+            if (this._pressed !== null && this._pressed === this._hovered) this._click(this._pressed, this._input.pointer);
+            this._pressed = null;
+        }
+        return this;
+    }
+
+    /**
+     * Draws scene, context state is restored afterwards
+     * @param {CanvasRenderingContext2D} ctx Context of canvas when omitted
+     */
+    public render(ctx?: CanvasRenderingContext2D): Scene {
+        let context: CanvasRenderingContext2D = ctx || this._canvas.getContext();
+        context.save();
+        if (this.camera !== null) this.camera.apply(context);
+        this.root.render(context);
+        context.restore();
+        return this;
+    }
+
+    /**
+     * Returns node under pointer
+     * @returns {SceneNode | null}
+     */
+    public getHovered(): SceneNode | null {
+        return this._hovered;
+    }
+
+    /**
+     * Stops reading input
+     */
+    public dispose(): void {
+        this._input = null;
+        this._hovered = null;
+        this._pressed = null;
+    }
+
+    /**
+     * Dispatches enter and leave events for changed hovered node
+     * @private
+     */
+    private _hover(screenPoint: Vector2): void {
+        let position: Vector2 = this.screenToWorld(screenPoint);
+        let hit: SceneNode | null = this.root.pick(position);
+        if (hit === this._hovered) return;
+        let previous: SceneNode | null = this._hovered;
+        let left: SceneNode[] = Scene._Ancestors(previous);
+        let entered: SceneNode[] = Scene._Ancestors(hit);
+        this._hovered = hit;
+        //Nodes in both paths are still hovered, leave goes from deepest node and enter from outermost one
+        for (let node of left) {
+            if (entered.indexOf(node) === -1) node.emit(Scene._Event('pointerleave', <SceneNode>previous, position, screenPoint));
+        }
+        for (let node of entered.reverse()) {
+            if (left.indexOf(node) === -1) node.emit(Scene._Event('pointerenter', <SceneNode>hit, position, screenPoint));
+        }
+    }
+
+    /**
+     * Dispatches bubbling click event
+     * @private
+     */
+    private _click(hit: SceneNode, screenPoint: Vector2): void {
+        let position: Vector2 = this.screenToWorld(screenPoint);
+        let event: SceneEvent = Scene._Event('click', hit, position, screenPoint);
+        for (let node of Scene._Ancestors(hit)) node.emit(event);
+    }
+
+    /**
+     * Returns node followed by its ancestors
+     * @private
+     */
+    private static _Ancestors(node: SceneNode | null): SceneNode[] {
+        let path: SceneNode[] = [];
+        for (; node !== null; node = node.parent) path.push(node);
+        return path;
+    }
+
+    /**
+     * Creates scene event
+     * @private
+     */
+    private static _Event(type: SceneEvent['type'], target: SceneNode, position: Vector2, screenPosition: Vector2): SceneEvent {
+        return {type: type, target: target, currentTarget: target, position: position, screenPosition: screenPosition.clone()};
+    }
+}
@@ -0,0 +1,228 @@
+/**
+ * Pointer event dispatched to scene nodes
+ * 'target' is the hit node (event bubbles from it to its ancestors), 'currentTarget' is node whose listener is called,
+ * 'position' is pointer in world coordinates and 'screenPosition' in canvas drawing coordinates.
+ */
+interface SceneEvent {
+    type: 'pointerenter' | 'pointerleave' | 'click',
+    target: SceneNode,
+    currentTarget: SceneNode,
+    position: Vector2,
+    screenPosition: Vector2
+}
+
+/**
+ * Node of scene graph with local transformation relative to its parent.
+ * 'shape' is circle or polygon in local coordinates used for picking, 'draw' renders node in local coordinates.
+ * Children are drawn after their parent in ascending 'zIndex' order (equal zIndex keeps insertion order).
+ */
+class SceneNode {
+    public name: string;
+    public position: Vector2;
+    public rotation: number;
+    public scale: Vector2;
+    public visible: boolean;
+    public interactive: boolean;
+    public zIndex: number;
+    public shape: { center: { x: number, y: number }, radius: number } | Array<{ x: number, y: number }> | null;
+    public draw: ((ctx: CanvasRenderingContext2D, node: SceneNode) => void) | null;
+    public parent: SceneNode | null;
+    public children: SceneNode[];
+    private _listeners: Map<string, Array<(event: SceneEvent) => void>>;
+
+    constructor(name?: string) {
+        this.name = name || '';
+        this.position = new Vector2();
+        this.rotation = 0;
+        this.scale = new Vector2(1, 1);
+        this.visible = true;
+        this.interactive = true;
+        this.zIndex = 0;
+        this.shape = null;
+        this.draw = null;
+        this.parent = null;
+        this.children = [];
+        this._listeners = new Map();
+        return this;
+    }
+
+    /**
+     * Adds child, child is removed from its previous parent
+     * @param {SceneNode} child
+     */
+    public add(child: SceneNode): SceneNode {
+        for (let node: SceneNode | null = this; node !== null; node = node.parent) {
+            if (node === child) throw new Error('Node can\'t be added to itself or its descendant');
+        }
+        if (child.parent !== null) child.parent.remove(child);
+        child.parent = this;
+        this.children.push(child);
+        return this;
+    }
+
+    /**
+     * Removes child
+     * @param {SceneNode} child
+     */
+    public remove(child: SceneNode): SceneNode {
+        let index: number = this.children.indexOf(child);
+        if (index !== -1) {
+            this.children.splice(index, 1);
+            child.parent = null;
+        }
+        return this;
+    }
+
+    /**
+     * Returns first descendant with given name
+     * @param {string} name
+     * @returns {SceneNode | null}
+     */
+    public find(name: string): SceneNode | null {
+        for (let child of this.children) {
+            if (child.name === name) return child;
+            let found: SceneNode | null = child.find(name);
+            if (found !== null) return found;
+        }
+        return null;
+    }
+
+    /**
+     * Returns transformation from local coordinates to parent's coordinates
+     * @returns {Transform2D}
+     */
+    public getLocalTransform(): Transform2D {
+        return Transform2D.FromTRS(this.position, this.rotation, this.scale);
+    }
+
+    /**
+     * Returns transformation from local coordinates to world (root) coordinates
+     * @returns {Transform2D}
+     */
+    public getWorldTransform(): Transform2D {
+        let m: Transform2D = this.getLocalTransform();
+        for (let node: SceneNode | null = this.parent; node !== null; node = node.parent) m.premultiply(node.getLocalTransform());
+        return m;
+    }
+
+    /**
+     * Converts local point to world coordinates
+     * @param {Vector2} point
+     * @returns {Vector2}
+     */
+    public localToWorld(point: Vector2): Vector2 {
+        return Transform2D.TransformVector2(this.getWorldTransform(), point);
+    }
+
+    /**
+     * Converts world point to local coordinates
+     * @param {Vector2} point
+     * @returns {Vector2}
+     */
+    public worldToLocal(point: Vector2): Vector2 {
+        return Transform2D.TransformVector2(this.getWorldTransform().invert(), point);
+    }
+
+    /**
+     * Returns shape transformed to world coordinates.
+     * Radius of circle is scaled by geometric mean of scales, so non-uniform scale is approximated
+     * @returns {{center: {x: number, y: number}, radius: number} | Array<{x: number, y: number}> | null}
+     */
+    public getWorldShape(): { center: { x: number, y: number }, radius: number } | Array<{ x: number, y: number }> | null {
+        if (this.shape === null) return null;
+        let m: Transform2D = this.getWorldTransform();
+        if (Array.isArray(this.shape)) return Transform2D.TransformPoints(m, this.shape);
+        return {
+            center: Transform2D.TransformPoints(m, [this.shape.center])[0],
+            radius: this.shape.radius * Math.sqrt(Math.abs(m.determinant()))
+        };
+    }
+
+    /**
+     * Checks whether world point is inside node's own shape (children are not tested)
+     * @param {Vector2} point
+     * @returns {boolean}
+     */
+    public containsPoint(point: Vector2): boolean {
+        if (this.shape === null) return false;
+        //Point is tested in local coordinates, so circle of non-uniformly scaled node is picked as the drawn ellipse
+        let m: Transform2D = this.getWorldTransform();
+        if (m.determinant() === 0) return false;
+        let local: Vector2 = Transform2D.TransformVector2(m.invert(), point);
+        return Array.isArray(this.shape) ? Collision2D.PointInsidePolygon(local, this.shape) : Collision2D.PointInsideCircle(local, this.shape);
+    }
+
+    /**
+     * Returns topmost visible interactive node under world point, children are above their parent
+     * @param {Vector2} point
+     * @returns {SceneNode | null}
+     */
+    public pick(point: Vector2): SceneNode | null {
+        if (!this.visible) return null;
+        let children: SceneNode[] = this._getSortedChildren();
+        for (let i = children.length - 1; i >= 0; i--) {
+            let hit: SceneNode | null = children[i].pick(point);
+            if (hit !== null) return hit;
+        }
+        return this.interactive && this.containsPoint(point) ? this : null;
+    }
+
+    /**
+     * Draws visible node and its children, context is restored afterwards
+     * @param {CanvasRenderingContext2D} ctx
+     */
+    public render(ctx: CanvasRenderingContext2D): SceneNode {
+        if (!this.visible) return this;
+        ctx.save();
+        this.getLocalTransform().transform(ctx);
+        if (this.draw !== null) this.draw(ctx, this);
+        for (let child of this._getSortedChildren()) child.render(ctx);
+        ctx.restore();
+        return this;
+    }
+
+    /**
+     * Adds event listener
+     * @param {string} type
+     * @param {(event: SceneEvent) => void} callback
+     */
+    public on(type: SceneEvent['type'], callback: (event: SceneEvent) => void): SceneNode {
+        let list = this._listeners.get(type) || [];
+        list.push(callback);
+        this._listeners.set(type, list);
+        return this;
+    }
+
+    /**
+     * Removes event listener
+     * @param {string} type
+     * @param {(event: SceneEvent) => void} callback
+     */
+    public off(type: SceneEvent['type'], callback: (event: SceneEvent) => void): SceneNode {
+        let list = this._listeners.get(type);
+        if (list !== undefined) this._listeners.set(type, list.filter(listener => listener !== callback));
+        return this;
+    }
+
+    /**
+     * Calls listeners of this node with given event
+     * @param {SceneEvent} event
+     */
+    public emit(event: SceneEvent): SceneNode {
+        event.currentTarget = this;
+        for (let listener of (this._listeners.get(event.type) || []).slice()) listener(event);
+        return this;
+    }
+
+    /**
+     * Returns children in drawing order
+     * @private
+     */
+    private _getSortedChildren(): SceneNode[] {
+        //Array.prototype.sort is stable since ES2019, indices keep it stable everywhere
+        return this.children
+            .map((child, index) => ({child: child, index: index}))
+            .sort((a, b) => a.child.zIndex - b.child.zIndex || a.index - b.index)
+            .map(entry => entry.child);
+    }
+}
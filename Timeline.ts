@@ -0,0 +1,115 @@
+/**
+ * Group of animations placed on common time axis.
+ * Animation added without offset starts when previous ones end, so timeline plays them in sequence.
+ */
+class Timeline implements Tween.Animation {
+    private _entries: Array<{ animation: Tween.Animation, offset: number }>;
+    private _elapsed: number;
+    private _completed: boolean;
+    private _chained: Tween.Animation[];
+    private _onUpdate: ((time: number) => void) | null;
+    private _onComplete: (() => void) | null;
+
+    constructor() {
+        this._entries = [];
+        this._elapsed = 0;
+        this._completed = false;
+        this._chained = [];
+        this._onUpdate = null;
+        this._onComplete = null;
+        return this;
+    }
+
+    /**
+     * Adds animation to timeline
+     * @param {Tween.Animation} animation
+     * @param {number} offset Start time in milliseconds, end of timeline when omitted
+     */
+    public add(animation: Tween.Animation, offset?: number): Timeline {
+        this._entries.push({animation: animation, offset: offset === undefined ? this.getDuration() : offset});
+        return this;
+    }
+
+    /**
+     * Sets animations started by TweenManager when this timeline completes
+     * @param {Tween.Animation[]} animations
+     */
+    public chain(...animations: Tween.Animation[]): Timeline {
+        this._chained = animations;
+        return this;
+    }
+
+    public onUpdate(callback: (time: number) => void): Timeline {
+        this._onUpdate = callback;
+        return this;
+    }
+
+    public onComplete(callback: () => void): Timeline {
+        this._onComplete = callback;
+        return this;
+    }
+
+    /**
+     * Returns animations to start when this timeline completes
+     * @returns {Tween.Animation[]}
+     */
+    public getChained(): Tween.Animation[] {
+        return this._chained;
+    }
+
+    /**
+     * Returns time when the last animation ends
+     * @returns {number}
+     */
+    public getDuration(): number {
+        return this._entries.reduce((end, entry) => Math.max(end, entry.offset + entry.animation.getDuration()), 0);
+    }
+
+    /**
+     * Checks if timeline finished
+     * @returns {boolean}
+     */
+    public isCompleted(): boolean {
+        return this._completed;
+    }
+
+    /**
+     * Rewinds timeline and all its animations to the beginning
+     */
+    public start(): Timeline {
+        this._elapsed = 0;
+        this._completed = false;
+        for (let entry of this._entries) entry.animation.start();
+        return this;
+    }
+
+    /**
+     * Advances timeline by frame delta
+     * @param {number} delta Time in milliseconds
+     * @returns {boolean} False when timeline is completed
+     */
+    public update(delta: number): boolean {
+        return this.setTime(this._elapsed + delta);
+    }
+
+    /**
+     * Moves timeline to given time since start (only forward)
+     * @param {number} time Time in milliseconds
+     * @returns {boolean} False when timeline is completed
+     */
+    public setTime(time: number): boolean {
+        if (this._completed) return false;
+        this._elapsed = time;
+        let running: boolean = false;
+        for (let entry of this._entries) {
+            if (time >= entry.offset) running = entry.animation.setTime(time - entry.offset) || running;
+            else running = true;
+        }
+        if (this._onUpdate) this._onUpdate(time);
+        if (!running) {
+            this._completed = true;
+            if (this._onComplete) this._onComplete();
+        }
+        return running;
+    }
+}
@@ -0,0 +1,305 @@
+/**
+ * 2D affine transformation matrix in canvas convention:
+ * | a c e |
+ * | b d f |
+ * | 0 0 1 |
+ * Point (x, y) is transformed to (a * x + c * y + e, b * x + d * y + f).
+ * Builder methods (translate, rotate, scale, skew) append transformation in local space, like CanvasRenderingContext2D does.
+ */
+class Transform2D {
+    public a: number;
+    public b: number;
+    public c: number;
+    public d: number;
+    public e: number;
+    public f: number;
+
+    constructor(a?: number, b?: number, c?: number, d?: number, e?: number, f?: number) {
+        this.a = a === undefined ? 1 : a;
+        this.b = b || 0;
+        this.c = c || 0;
+        this.d = d === undefined ? 1 : d;
+        this.e = e || 0;
+        this.f = f || 0;
+        return this;
+    }
+
+    public static Identity(): Transform2D {
+        return new Transform2D();
+    }
+
+    public static Translation(x: number, y: number): Transform2D {
+        return new Transform2D(1, 0, 0, 1, x, y);
+    }
+
+    public static Rotation(angle: number, center?: { x: number, y: number }): Transform2D {
+        let c: number = Math.cos(angle), s = Math.sin(angle);
+        let m: Transform2D = new Transform2D(c, s, -s, c, 0, 0);
+        if (center !== undefined) {
+            m.e = center.x - c * center.x + s * center.y;
+            m.f = center.y - s * center.x - c * center.y;
+        }
+        return m;
+    }
+
+    public static Scaling(scaleX: number, scaleY?: number, center?: { x: number, y: number }): Transform2D {
+        if (scaleY === undefined) scaleY = scaleX;
+        let m: Transform2D = new Transform2D(scaleX, 0, 0, scaleY, 0, 0);
+        if (center !== undefined) {
+            m.e = center.x * (1 - scaleX);
+            m.f = center.y * (1 - scaleY);
+        }
+        return m;
+    }
+
+    public static Skewing(angleX: number, angleY?: number): Transform2D {
+        return new Transform2D(1, Math.tan(angleY || 0), Math.tan(angleX), 1, 0, 0);
+    }
+
+    /**
+     * Composes transformation from translation, rotation, scale and skew (along x axis), inverse of decompose
+     * @param {Vector2} translation
+     * @param {number} rotation Angle in radians
+     * @param {Vector2} scale
+     * @param {number} skew Angle in radians
+     * @returns {Transform2D}
+     */
+    public static FromTRS(translation: Vector2, rotation: number, scale: Vector2, skew?: number): Transform2D {
+        return new Transform2D().translate(translation.x, translation.y).rotate(rotation).skew(skew || 0, 0).scale(scale.x, scale.y);
+    }
+
+    /**
+     * Reads current transformation of the context
+     * @param {CanvasRenderingContext2D} ctx
+     * @returns {Transform2D}
+     */
+    public static FromContext(ctx: CanvasRenderingContext2D): Transform2D {
+        let m: DOMMatrix = ctx.getTransform();
+        return new Transform2D(m.a, m.b, m.c, m.d, m.e, m.f);
+    }
+
+    /**
+     * Returns product m1 * m2, which applies m2 first and then m1
+     * @param {Transform2D} m1
+     * @param {Transform2D} m2
+     * @returns {Transform2D}
+     */
+    public static Multiply(m1: Transform2D, m2: Transform2D): Transform2D {
+        return new Transform2D(
+            m1.a * m2.a + m1.c * m2.b,
+            m1.b * m2.a + m1.d * m2.b,
+            m1.a * m2.c + m1.c * m2.d,
+            m1.b * m2.c + m1.d * m2.d,
+            m1.a * m2.e + m1.c * m2.f + m1.e,
+            m1.b * m2.e + m1.d * m2.f + m1.f
+        );
+    }
+
+    public static Invert(m: Transform2D): Transform2D {
+        return m.clone().invert();
+    }
+
+    /**
+     * Returns transformed copy of vector
+     * @param {Transform2D} m
+     * @param {Vector2} v
+     * @returns {Vector2}
+     */
+    public static TransformVector2(m: Transform2D, v: Vector2): Vector2 {
+        return new Vector2(m.a * v.x + m.c * v.y + m.e, m.b * v.x + m.d * v.y + m.f);
+    }
+
+    /**
+     * Returns transformed copies of points
+     * @param {Transform2D} m
+     * @param {Array<{x: number, y: number}>} points
+     * @returns {Array<{x: number, y: number}>}
+     */
+    public static TransformPoints(m: Transform2D, points: Array<{ x: number, y: number, [propName: string]: any }>): Array<{ x: number, y: number }> {
+        return points.map(p => ({x: m.a * p.x + m.c * p.y + m.e, y: m.b * p.x + m.d * p.y + m.f}));
+    }
+
+    /**
+     * Returns a new Transform2D with the same values as this one.
+     * @returns {Transform2D}
+     */
+    public clone(): Transform2D {
+        return new Transform2D(this.a, this.b, this.c, this.d, this.e, this.f);
+    }
+
+    /**
+     * Copies the values of the passed Transform2D to this one.
+     * @param {Transform2D} m
+     */
+    public copy(m: Transform2D): Transform2D {
+        return this.set(m.a, m.b, m.c, m.d, m.e, m.f);
+    }
+
+    /**
+     * Sets all values of matrix
+     */
+    public set(a: number, b: number, c: number, d: number, e: number, f: number): Transform2D {
+        this.a = a;
+        this.b = b;
+        this.c = c;
+        this.d = d;
+        this.e = e;
+        this.f = f;
+        return this;
+    }
+
+    /**
+     * Resets matrix to identity
+     */
+    public identity(): Transform2D {
+        return this.set(1, 0, 0, 1, 0, 0);
+    }
+
+    /**
+     * Multiplies this matrix by given one (this = this * m), m is applied first
+     * @param {Transform2D} m
+     */
+    public multiply(m: Transform2D): Transform2D {
+        return this.copy(Transform2D.Multiply(this, m));
+    }
+
+    /**
+     * Multiplies given matrix by this one (this = m * this), m is applied last
+     * @param {Transform2D} m
+     */
+    public premultiply(m: Transform2D): Transform2D {
+        return this.copy(Transform2D.Multiply(m, this));
+    }
+
+    /**
+     * Appends translation in local space
+     * @param {number} x
+     * @param {number} y
+     */
+    public translate(x: number, y: number): Transform2D {
+        this.e += this.a * x + this.c * y;
+        this.f += this.b * x + this.d * y;
+        return this;
+    }
+
+    /**
+     * Appends rotation in local space
+     * @param {number} angle The angle to rotate, in radians.
+     */
+    public rotate(angle: number): Transform2D {
+        return this.multiply(Transform2D.Rotation(angle));
+    }
+
+    /**
+     * Appends scale in local space
+     * @param {number} scaleX
+     * @param {number} scaleY Equal to scaleX when omitted
+     */
+    public scale(scaleX: number, scaleY?: number): Transform2D {
+        if (scaleY === undefined) scaleY = scaleX;
+        this.a *= scaleX;
+        this.b *= scaleX;
+        this.c *= scaleY;
+        this.d *= scaleY;
+        return this;
+    }
+
+    /**
+     * Appends skew in local space
+     * @param {number} angleX Skew angle along x axis, in radians.
+     * @param {number} angleY Skew angle along y axis, in radians.
+     */
+    public skew(angleX: number, angleY?: number): Transform2D {
+        return this.multiply(Transform2D.Skewing(angleX, angleY));
+    }
+
+    /**
+     * Calculates determinant of matrix
+     * @returns {number}
+     */
+    public determinant(): number {
+        return this.a * this.d - this.b * this.c;
+    }
+
+    /**
+     * Inverts matrix, so it maps world coordinates back to local ones
+     */
+    public invert(): Transform2D {
+        let det: number = this.determinant();
+        if (det === 0) throw new Error('Unable to invert singular matrix');
+        let a: number = this.a, b = this.b, c = this.c, d = this.d, e = this.e, f = this.f;
+        return this.set(d / det, -b / det, -c / det, a / det, (c * f - d * e) / det, (b * e - a * f) / det);
+    }
+
+    /**
+     * Decomposes matrix into translation, rotation, scale and skew along x axis
+     * (FromTRS composes it back). Mirroring is stored as negative scale.y
+     * @returns {{translation: Vector2, rotation: number, scale: Vector2, skew: number}}
+     */
+    public decompose(): { translation: Vector2, rotation: number, scale: Vector2, skew: number } {
+        let scaleX: number = Math.sqrt(this.a * this.a + this.b * this.b);
+        let det: number = this.determinant();
+        return {
+            translation: new Vector2(this.e, this.f),
+            rotation: Math.atan2(this.b, this.a),
+            scale: new Vector2(scaleX, scaleX === 0 ? 0 : det / scaleX),
+            skew: det === 0 ? 0 : Math.atan((this.a * this.c + this.b * this.d) / det)
+        };
+    }
+
+    /**
+     * Transforms vector in place
+     * @param {Vector2} v
+     * @returns {Vector2}
+     */
+    public applyToVector2(v: Vector2): Vector2 {
+        let x: number = v.x;
+        v.x = this.a * x + this.c * v.y + this.e;
+        v.y = this.b * x + this.d * v.y + this.f;
+        return v;
+    }
+
+    /**
+     * Transforms points (e.g. polygon) in place
+     * @param {Array<{x: number, y: number}>} points
+     */
+    public applyToPoints(points: Array<{ x: number, y: number, [propName: string]: any }>): Transform2D {
+        for (let p of points) {
+            let x: number = p.x;
+            p.x = this.a * x + this.c * p.y + this.e;
+            p.y = this.b * x + this.d * p.y + this.f;
+        }
+        return this;
+    }
+
+    /**
+     * Replaces transformation of the context with this one
+     * @param {CanvasRenderingContext2D} ctx
+     */
+    public setTransform(ctx: CanvasRenderingContext2D): Transform2D {
+        ctx.setTransform(this.a, this.b, this.c, this.d, this.e, this.f);
+        return this;
+    }
+
+    /**
+     * Multiplies current transformation of the context by this one
+     * @param {CanvasRenderingContext2D} ctx
+     */
+    public transform(ctx: CanvasRenderingContext2D): Transform2D {
+        ctx.transform(this.a, this.b, this.c, this.d, this.e, this.f);
+        return this;
+    }
+
+    /**
+     * Checks if matrices are equal within epsilon
+     * @param {Transform2D} m
+     * @param {number} epsilon
+     * @returns {boolean}
+     */
+    public equals(m: Transform2D, epsilon?: number): boolean {
+        if (epsilon === undefined) epsilon = 0;
+        return Math.abs(this.a - m.a) <= epsilon && Math.abs(this.b - m.b) <= epsilon &&
+            Math.abs(this.c - m.c) <= epsilon && Math.abs(this.d - m.d) <= epsilon &&
+            Math.abs(this.e - m.e) <= epsilon && Math.abs(this.f - m.f) <= epsilon;
+    }
+}
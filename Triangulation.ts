@@ -0,0 +1,338 @@
+/**
+ * SPECIFICATION
+ *
+ * 1) POINT:object = {x:number, y:number}
+ * 2) POLYGON:POINT[x>=3] = [POINT, POINT, POINT, ...] (simple, any winding order)
+ * 3) HOLES:POLYGON[] = [POLYGON, POLYGON, ...] (lying inside polygon, any winding order)
+ * 4) TRIANGLE:number[3] = [index, index, index]
+ *    Indexes reference vertices of polygon followed by vertices of holes (polygon.concat(...holes)).
+ *    Triangles are ordered counter-clockwise in standard axes (positive area for Polygon.GetArea).
+ */
+namespace Triangulation {
+
+    /**
+     * Interface of Point
+     */
+    interface Point {
+        x: number,
+        y: number,
+
+        [propName: string]: any;
+    }
+
+    /**
+     * Triangulates polygon (with optional holes) using ear clipping.
+     * Duplicate and collinear points are allowed, they are skipped when they would create degenerate triangles
+     * @param {Triangulation.Point[]} polygon Array of points
+     * @param {Triangulation.Point[][]} holes Array of polygons lying inside polygon
+     * @returns {number[][]} Array of triangles (index triples)
+     */
+    export function EarClipping(polygon: Point[], holes?: Point[][]): number[][] {
+        let points: Point[] = _Flatten(polygon, holes || []);
+        let ring: number[] = _Ring(points, 0, polygon.length, true);
+
+        //Holes are merged into the outer ring starting from the rightmost one
+        let holeRings: number[][] = [];
+        let offset: number = polygon.length;
+        for (let hole of holes || []) {
+            let holeRing: number[] = _Ring(points, offset, hole.length, false);
+            if (holeRing.length >= 3) holeRings.push(holeRing);
+            offset += hole.length;
+        }
+        holeRings.sort((a, b) => _MaxX(points, b) - _MaxX(points, a));
+        for (let holeRing of holeRings) ring = _Bridge(points, ring, holeRing);
+
+        return _Clip(points, ring);
+    }
+
+    /**
+     * Triangulates polygon (with optional holes) creating constrained Delaunay triangulation.
+     * Ear clipping result is improved by flipping edges until no triangle has a vertex inside
+     * circumcircle of its neighbour, edges of polygon and holes are never flipped
+     * @param {Triangulation.Point[]} polygon Array of points
+     * @param {Triangulation.Point[][]} holes Array of polygons lying inside polygon
+     * @returns {number[][]} Array of triangles (index triples)
+     */
+    export function ConstrainedDelaunay(polygon: Point[], holes?: Point[][]): number[][] {
+        //https://en.wikipedia.org/wiki/Delaunay_triangulation#Visual_Delaunay_definition:_Flipping
+        let points: Point[] = _Flatten(polygon, holes || []);
+        let triangles: number[][] = EarClipping(polygon, holes);
+
+        let constrained: Set<string> = new Set();
+        let offset = 0;
+        for (let ring of [polygon].concat(holes || [])) {
+            for (let i = 0; i < ring.length; i++) constrained.add(_EdgeKey(points, offset + i, offset + (i + 1) % ring.length));
+            offset += ring.length;
+        }
+
+        //Triangles sharing each edge, updated with every flip
+        let edges: Map<string, Array<{ triangle: number, corner: number }>> = new Map();
+        for (let t = 0; t < triangles.length; t++) _LinkTriangle(points, triangles, t, edges);
+
+        //Lawson's algorithm, edges of quadrilateral around flipped edge are checked again
+        let stack: string[] = Array.from(edges.keys());
+        while (stack.length > 0) {
+            let key: string = stack.pop()!;
+            let shared = edges.get(key);
+            if (shared === undefined || shared.length !== 2 || constrained.has(key)) continue;
+            let first: number = shared[0].triangle, second: number = shared[1].triangle;
+            let t1: number[] = triangles[first], t2: number[] = triangles[second];
+            let a: number = t1[shared[0].corner], b: number = t1[(shared[0].corner + 1) % 3];
+            let c: number = t1[(shared[0].corner + 2) % 3], d: number = t2[(shared[1].corner + 2) % 3];
+            if (!_InCircle(points[a], points[b], points[c], points[d])) continue;
+
+            //Flip only when quadrilateral a, d, b, c is convex
+            if (_Cross(points[a], points[d], points[c]) <= 0 || _Cross(points[d], points[b], points[c]) <= 0) continue;
+            _UnlinkTriangle(points, triangles, first, edges);
+            _UnlinkTriangle(points, triangles, second, edges);
+            triangles[first] = [a, d, c];
+            triangles[second] = [d, b, c];
+            _LinkTriangle(points, triangles, first, edges);
+            _LinkTriangle(points, triangles, second, edges);
+            stack.push(_EdgeKey(points, a, d), _EdgeKey(points, d, b), _EdgeKey(points, b, c), _EdgeKey(points, c, a));
+        }
+        return triangles;
+    }
+
+    /**
+     * Triangulates polygon (with optional holes)
+     * @param {Triangulation.Point[]} polygon Array of points
+     * @param {Triangulation.Point[][]} holes Array of polygons lying inside polygon
+     * @param {boolean} delaunay When true constrained Delaunay triangulation is created (better shaped triangles)
+     * @returns {number[][]} Array of triangles (index triples)
+     */
+    export function Triangulate(polygon: Point[], holes?: Point[][], delaunay?: boolean): number[][] {
+        return delaunay ? ConstrainedDelaunay(polygon, holes) : EarClipping(polygon, holes);
+    }
+
+    /**
+     * Clips ears of ring until only one triangle is left
+     * @param {Triangulation.Point[]} points All vertices
+     * @param {number[]} ring Indexes of vertices ordered counter-clockwise
+     * @returns {number[][]}
+     * @private
+     */
+    function _Clip(points: Point[], ring: number[]): number[][] {
+        //https://www.geometrictools.com/Documentation/TriangulationByEarClipping.pdf
+        let toReturn: number[][] = [];
+        let remaining: number[] = ring.slice();
+        while (remaining.length > 3) {
+            let ear: number = _FindEar(points, remaining);
+            if (ear === -1) {
+                //No valid ear, drop degenerate vertex or force clipping when polygon is not simple
+                let degenerate: number = remaining.findIndex((v, i) => _Cross(
+                    points[remaining[(i + remaining.length - 1) % remaining.length]], points[v],
+                    points[remaining[(i + 1) % remaining.length]]) === 0);
+                if (degenerate !== -1) {
+                    remaining.splice(degenerate, 1);
+                    continue;
+                }
+                ear = 0;
+            }
+            let prev: number = remaining[(ear + remaining.length - 1) % remaining.length];
+            let next: number = remaining[(ear + 1) % remaining.length];
+            if (_Cross(points[prev], points[remaining[ear]], points[next]) > 0) toReturn.push([prev, remaining[ear], next]);
+            remaining.splice(ear, 1);
+        }
+        if (remaining.length === 3 && _Cross(points[remaining[0]], points[remaining[1]], points[remaining[2]]) > 0) {
+            toReturn.push(remaining);
+        }
+        return toReturn;
+    }
+
+    /**
+     * Finds convex vertex which triangle with its neighbours contains no other vertex
+     * @param {Triangulation.Point[]} points All vertices
+     * @param {number[]} ring Indexes of remaining vertices
+     * @returns {number} Position in ring or -1
+     * @private
+     */
+    function _FindEar(points: Point[], ring: number[]): number {
+        for (let i = 0; i < ring.length; i++) {
+            let a: Point = points[ring[(i + ring.length - 1) % ring.length]];
+            let b: Point = points[ring[i]];
+            let c: Point = points[ring[(i + 1) % ring.length]];
+            if (_Cross(a, b, c) <= 0) continue;
+
+            let isEar: boolean = true;
+            for (let j = 0; j < ring.length && isEar; j++) {
+                let p: Point = points[ring[j]];
+                if (_SamePosition(p, a) || _SamePosition(p, b) || _SamePosition(p, c)) continue;
+                if (_PointInTriangle(p, a, b, c)) isEar = false;
+            }
+            if (isEar) return i;
+        }
+        return -1;
+    }
+
+    /**
+     * Connects hole with outer ring by two coincident edges
+     * @param {Triangulation.Point[]} points All vertices
+     * @param {number[]} outer Indexes of outer ring ordered counter-clockwise
+     * @param {number[]} hole Indexes of hole ordered clockwise
+     * @returns {number[]} Merged ring
+     * @private
+     */
+    function _Bridge(points: Point[], outer: number[], hole: number[]): number[] {
+        //Rightmost vertex of hole
+        let holeStart = 0;
+        for (let i = 1; i < hole.length; i++) if (points[hole[i]].x > points[hole[holeStart]].x) holeStart = i;
+        let m: Point = points[hole[holeStart]];
+
+        //Closest edge hit by ray cast from m to the right
+        let bestX = Infinity, bridge = -1;
+        for (let i = 0; i < outer.length; i++) {
+            let a: Point = points[outer[i]], b: Point = points[outer[(i + 1) % outer.length]];
+            if ((a.y > m.y) === (b.y > m.y) && !(a.y === m.y && b.y === m.y)) continue;
+            if (a.y === b.y) {
+                let x: number = Math.min(a.x, b.x);
+                if (x >= m.x && x < bestX) {
+                    bestX = x;
+                    bridge = a.x < b.x ? i : (i + 1) % outer.length;
+                }
+                continue;
+            }
+            let x: number = a.x + (m.y - a.y) * (b.x - a.x) / (b.y - a.y);
+            if (x >= m.x && x < bestX) {
+                bestX = x;
+                bridge = a.x > b.x ? i : (i + 1) % outer.length;
+            }
+        }
+        if (bridge === -1) return outer;
+
+        //Reflex vertices inside triangle (m, hit point, bridge) may block the bridge, take the one with the smallest angle
+        let hit: Point = {x: bestX, y: m.y};
+        let p: Point = points[outer[bridge]];
+        if (hit.x !== p.x || hit.y !== p.y) {
+            let bestAngle = Infinity;
+            for (let i = 0; i < outer.length; i++) {
+                let v: Point = points[outer[i]];
+                let prev: Point = points[outer[(i + outer.length - 1) % outer.length]];
+                let next: Point = points[outer[(i + 1) % outer.length]];
+                if (_Cross(prev, v, next) > 0 || v.x < m.x) continue;
+                if (!_PointInTriangle(v, m, hit, p) && !_SamePosition(v, p)) continue;
+                let angle: number = Math.abs(Math.atan2(v.y - m.y, v.x - m.x));
+                if (angle < bestAngle || (angle === bestAngle && v.x < points[outer[bridge]].x)) {
+                    bestAngle = angle;
+                    bridge = i;
+                }
+            }
+        }
+
+        let toReturn: number[] = outer.slice(0, bridge + 1);
+        for (let i = 0; i <= hole.length; i++) toReturn.push(hole[(holeStart + i) % hole.length]);
+        toReturn.push(outer[bridge]);
+        return toReturn.concat(outer.slice(bridge + 1));
+    }
+
+    /**
+     * Returns indexes of ring vertices without repeated consecutive points, in requested orientation
+     * @private
+     */
+    function _Ring(points: Point[], offset: number, length: number, counterClockwise: boolean): number[] {
+        let toReturn: number[] = [];
+        for (let i = offset; i < offset + length; i++) {
+            let last: number = toReturn[toReturn.length - 1];
+            if (last === undefined || !_SamePosition(points[last], points[i])) toReturn.push(i);
+        }
+        while (toReturn.length > 1 && _SamePosition(points[toReturn[0]], points[toReturn[toReturn.length - 1]])) toReturn.pop();
+        let area: number = Polygon.GetArea(toReturn.map(i => points[i]), true);
+        if ((area > 0) !== counterClockwise) toReturn.reverse();
+        return toReturn;
+    }
+
+    /**
+     * Joins polygon and holes into one array of vertices
+     * @private
+     */
+    function _Flatten(polygon: Point[], holes: Point[][]): Point[] {
+        let toReturn: Point[] = polygon.slice();
+        for (let hole of holes) toReturn = toReturn.concat(hole);
+        return toReturn;
+    }
+
+    /**
+     * Returns maximum x coordinate of ring
+     * @private
+     */
+    function _MaxX(points: Point[], ring: number[]): number {
+        let max: number = -Infinity;
+        for (let i of ring) max = Math.max(max, points[i].x);
+        return max;
+    }
+
+    /**
+     * Creates key of undirected edge, coincident vertices give the same key
+     * @private
+     */
+    function _EdgeKey(points: Point[], a: number, b: number): string {
+        let pa: string = points[a].x + ':' + points[a].y, pb: string = points[b].x + ':' + points[b].y;
+        return pa < pb ? pa + '|' + pb : pb + '|' + pa;
+    }
+
+    /**
+     * Adds edges of triangle to map of triangles sharing each edge
+     * @private
+     */
+    function _LinkTriangle(points: Point[], triangles: number[][], t: number, edges: Map<string, Array<{ triangle: number, corner: number }>>): void {
+        for (let corner = 0; corner < 3; corner++) {
+            let key: string = _EdgeKey(points, triangles[t][corner], triangles[t][(corner + 1) % 3]);
+            let shared = edges.get(key);
+            if (shared === undefined) edges.set(key, [{triangle: t, corner: corner}]);
+            else shared.push({triangle: t, corner: corner});
+        }
+    }
+
+    /**
+     * Removes edges of triangle from map of triangles sharing each edge
+     * @private
+     */
+    function _UnlinkTriangle(points: Point[], triangles: number[][], t: number, edges: Map<string, Array<{ triangle: number, corner: number }>>): void {
+        for (let corner = 0; corner < 3; corner++) {
+            let key: string = _EdgeKey(points, triangles[t][corner], triangles[t][(corner + 1) % 3]);
+            let shared = (edges.get(key) || []).filter(entry => entry.triangle !== t);
+            if (shared.length === 0) edges.delete(key);
+            else edges.set(key, shared);
+        }
+    }
+
+    /**
+     * Calculates cross product of vectors ab and bc (positive for left turn in standard axes)
+     * @private
+     */
+    function _Cross(a: Point, b: Point, c: Point): number {
+        return (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    }
+
+    /**
+     * Checks if point lies inside or on the boundary of counter-clockwise triangle abc
+     * @private
+     */
+    function _PointInTriangle(p: Point, a: Point, b: Point, c: Point): boolean {
+        return _Cross(a, b, p) >= 0 && _Cross(b, c, p) >= 0 && _Cross(c, a, p) >= 0;
+    }
+
+    /**
+     * Checks if point d lies inside circumcircle of counter-clockwise triangle abc
+     * @private
+     */
+    function _InCircle(a: Point, b: Point, c: Point, d: Point): boolean {
+        let adx: number = a.x - d.x, ady: number = a.y - d.y;
+        let bdx: number = b.x - d.x, bdy: number = b.y - d.y;
+        let cdx: number = c.x - d.x, cdy: number = c.y - d.y;
+        let alift: number = adx * adx + ady * ady, blift: number = bdx * bdx + bdy * bdy, clift: number = cdx * cdx + cdy * cdy;
+        let det: number = alift * (bdx * cdy - cdx * bdy) - blift * (adx * cdy - cdx * ady) + clift * (adx * bdy - bdx * ady);
+        //Determinant grows with fourth power of coordinates, so tolerance is relative to magnitude of its terms
+        let permanent: number = alift * (Math.abs(bdx * cdy) + Math.abs(cdx * bdy)) +
+            blift * (Math.abs(adx * cdy) + Math.abs(cdx * ady)) +
+            clift * (Math.abs(adx * bdy) + Math.abs(bdx * ady));
+        return det > permanent * 1e-12;
+    }
+
+    /**
+     * @private
+     */
+    function _SamePosition(a: Point, b: Point): boolean {
+        return a.x === b.x && a.y === b.y;
+    }
+}
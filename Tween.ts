@@ -0,0 +1,302 @@
+/**
+ * Animates properties of target object from their current values to given ones.
+ * Numbers, Vector2 (or any {x, y} object, changed in place) and CSS colors ('#rgb', '#rrggbb', 'rgb()', 'rgba()') are supported.
+ * Time is advanced manually by update(delta), usually from TweenManager driven by animation loop.
+ */
+class Tween<T extends object> implements Tween.Animation {
+    public target: T;
+    private _to: { [key: string]: Tween.Value };
+    private _from: { [key: string]: number | number[] | { x: number, y: number } };
+    private _duration: number;
+    private _delay: number;
+    private _repeat: number;
+    private _yoyo: boolean;
+    private _easing: Easing.EasingFunction;
+    private _elapsed: number;
+    private _cycle: number;
+    private _started: boolean;
+    private _completed: boolean;
+    private _chained: Tween.Animation[];
+    private _onStart: ((target: T) => void) | null;
+    private _onUpdate: ((target: T, progress: number) => void) | null;
+    private _onRepeat: ((target: T, cycle: number) => void) | null;
+    private _onComplete: ((target: T) => void) | null;
+
+    constructor(target: T) {
+        this.target = target;
+        this._to = {};
+        this._from = {};
+        this._duration = 0;
+        this._delay = 0;
+        this._repeat = 0;
+        this._yoyo = false;
+        this._easing = Easing.Linear;
+        this._elapsed = 0;
+        this._cycle = 0;
+        this._started = false;
+        this._completed = false;
+        this._chained = [];
+        this._onStart = null;
+        this._onUpdate = null;
+        this._onRepeat = null;
+        this._onComplete = null;
+        return this;
+    }
+
+    /**
+     * Sets final values of properties and duration of animation
+     * @param {Tween.Properties<T>} properties
+     * @param {number} duration Duration in milliseconds
+     */
+    public to(properties: Tween.Properties<T>, duration: number): Tween<T> {
+        this._to = {};
+        for (let key of Object.keys(properties)) {
+            let value: unknown = Reflect.get(properties, key);
+            if (typeof value === 'number' || typeof value === 'string' || Tween._IsVector(value)) this._to[key] = value;
+        }
+        this._duration = Math.max(0, duration);
+        return this;
+    }
+
+    /**
+     * Sets time to wait before animation starts
+     * @param {number} delay Delay in milliseconds
+     */
+    public delay(delay: number): Tween<T> {
+        this._delay = Math.max(0, delay);
+        return this;
+    }
+
+    /**
+     * Sets how many times animation is repeated after the first run
+     * @param {number} count Number of repeats (Infinity for endless animation)
+     */
+    public repeat(count: number): Tween<T> {
+        this._repeat = Math.max(0, count);
+        return this;
+    }
+
+    /**
+     * Makes every other repeat run backwards
+     * @param {boolean} yoyo
+     */
+    public yoyo(yoyo?: boolean): Tween<T> {
+        this._yoyo = yoyo === undefined ? true : yoyo;
+        return this;
+    }
+
+    /**
+     * Sets easing function (default Easing.Linear)
+     * @param {Easing.EasingFunction} easing
+     */
+    public easing(easing: Easing.EasingFunction): Tween<T> {
+        this._easing = easing;
+        return this;
+    }
+
+    /**
+     * Sets animations started by TweenManager when this one completes
+     * @param {Tween.Animation[]} animations
+     */
+    public chain(...animations: Tween.Animation[]): Tween<T> {
+        this._chained = animations;
+        return this;
+    }
+
+    public onStart(callback: (target: T) => void): Tween<T> {
+        this._onStart = callback;
+        return this;
+    }
+
+    public onUpdate(callback: (target: T, progress: number) => void): Tween<T> {
+        this._onUpdate = callback;
+        return this;
+    }
+
+    public onRepeat(callback: (target: T, cycle: number) => void): Tween<T> {
+        this._onRepeat = callback;
+        return this;
+    }
+
+    public onComplete(callback: (target: T) => void): Tween<T> {
+        this._onComplete = callback;
+        return this;
+    }
+
+    /**
+     * Returns animations to start when this one completes
+     * @returns {Tween.Animation[]}
+     */
+    public getChained(): Tween.Animation[] {
+        return this._chained;
+    }
+
+    /**
+     * Returns total duration including delay and repeats
+     * @returns {number}
+     */
+    public getDuration(): number {
+        if (this._duration === 0) return this._delay;
+        return this._delay + this._duration * (this._repeat + 1);
+    }
+
+    /**
+     * Checks if animation finished
+     * @returns {boolean}
+     */
+    public isCompleted(): boolean {
+        return this._completed;
+    }
+
+    /**
+     * Rewinds animation to the beginning, start values are read again once delay passes
+     */
+    public start(): Tween<T> {
+        this._elapsed = 0;
+        this._cycle = 0;
+        this._started = false;
+        this._completed = false;
+        return this;
+    }
+
+    /**
+     * Advances animation by frame delta
+     * @param {number} delta Time in milliseconds
+     * @returns {boolean} False when animation is completed
+     */
+    public update(delta: number): boolean {
+        return this.setTime(this._elapsed + delta);
+    }
+
+    /**
+     * Moves animation to given time since start (only forward), used by Timeline
+     * @param {number} time Time in milliseconds
+     * @returns {boolean} False when animation is completed
+     */
+    public setTime(time: number): boolean {
+        if (this._completed) return false;
+        this._elapsed = time;
+        let local: number = time - this._delay;
+        if (local < 0) return true;
+        if (!this._started) {
+            this._started = true;
+            this._captureStart();
+            if (this._onStart) this._onStart(this.target);
+        }
+
+        //Endless repeats of zero-duration tween would never finish, it's applied once instead
+        let repeat: number = this._duration === 0 && !isFinite(this._repeat) ? 0 : this._repeat;
+        let finished: boolean = local >= this._duration * (repeat + 1);
+        let cycle: number = finished || this._duration === 0 ? repeat : Math.floor(local / this._duration);
+        let progress: number = finished || this._duration === 0 ? 1 : local / this._duration - cycle;
+        while (this._cycle < cycle) {
+            this._cycle++;
+            if (this._onRepeat) this._onRepeat(this.target, this._cycle);
+        }
+        if (this._yoyo && cycle % 2 === 1) progress = 1 - progress;
+        this._apply(this._easing(progress));
+        if (this._onUpdate) this._onUpdate(this.target, progress);
+
+        if (finished) {
+            this._completed = true;
+            if (this._onComplete) this._onComplete(this.target);
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Reads start values of animated properties
+     * @private
+     */
+    private _captureStart(): void {
+        this._from = {};
+        for (let key of Object.keys(this._to)) {
+            let value: unknown = Reflect.get(this.target, key), to: Tween.Value = this._to[key];
+            if (typeof to === 'string') this._from[key] = Tween._ParseColor(String(value));
+            else if (typeof to === 'object' && Tween._IsVector(value)) this._from[key] = {x: value.x, y: value.y};
+            else if (typeof to === 'number' && typeof value === 'number') this._from[key] = value;
+            else throw new Error(`Unable to animate property '${key}' from ${value}`);
+        }
+    }
+
+    /**
+     * Sets interpolated values of properties
+     * @private
+     */
+    private _apply(t: number): void {
+        const lerp = (a: number, b: number): number => a + (b - a) * t;
+        for (let key of Object.keys(this._to)) {
+            let from = this._from[key], to: Tween.Value = this._to[key];
+            if (typeof to === 'string' && Array.isArray(from)) {
+                let end: number[] = Tween._ParseColor(to);
+                let rgba: number[] = from.map((c, i) => lerp(c, end[i]));
+                Reflect.set(this.target, key, `rgba(${Math.round(rgba[0])}, ${Math.round(rgba[1])}, ${Math.round(rgba[2])}, ${+rgba[3].toFixed(3)})`);
+            } else if (typeof to === 'object' && typeof from === 'object' && !Array.isArray(from)) {
+                let vector: unknown = Reflect.get(this.target, key);
+                if (!Tween._IsVector(vector)) continue;
+                vector.x = lerp(from.x, to.x);
+                vector.y = lerp(from.y, to.y);
+            } else if (typeof to === 'number' && typeof from === 'number') Reflect.set(this.target, key, lerp(from, to));
+        }
+    }
+
+    /**
+     * Checks if value is {x, y} object
+     * @private
+     */
+    private static _IsVector(value: unknown): value is { x: number, y: number } {
+        return typeof value === 'object' && value !== null && 'x' in value && 'y' in value && typeof value.x === 'number' && typeof value.y === 'number';
+    }
+
+    /**
+     * Parses CSS color into [r, g, b, a]
+     * @private
+     */
+    private static _ParseColor(color: string): number[] {
+        let hex: RegExpMatchArray | null = color.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i);
+        if (hex !== null) {
+            let digits: string = hex[1].length <= 4 ? hex[1].replace(/./g, c => c + c) : hex[1];
+            let channels: number[] = (digits.match(/../g) || []).map(pair => parseInt(pair, 16));
+            return [channels[0], channels[1], channels[2], channels.length === 4 ? channels[3] / 255 : 1];
+        }
+        let rgb: RegExpMatchArray | null = color.match(/^rgba?\(\s*([^)]*)\)$/i);
+        if (rgb !== null) {
+            let channels: number[] = rgb[1].split(/[\s,\/]+/).map(Number);
+            if (channels.length >= 3 && channels.every(c => !isNaN(c))) return [channels[0], channels[1], channels[2], channels.length > 3 ? channels[3] : 1];
+        }
+        throw new Error(`Unable to animate color '${color}'`);
+    }
+}
+
+namespace Tween {
+
+    /**
+     * Type of animated value: number, CSS color or {x, y} object
+     */
+    export type Value = number | string | { x: number, y: number };
+
+    /**
+     * Final values of animated properties, only number, string and {x, y} properties of target are accepted
+     */
+    export type Properties<T> = {
+        [K in keyof T]?: T[K] extends number ? number : T[K] extends string ? string : T[K] extends { x: number, y: number } ? { x: number, y: number } : never
+    };
+
+    /**
+     * Common interface of tweens and timelines driven by Timeline and TweenManager
+     */
+    export interface Animation {
+        start(): Animation;
+
+        update(delta: number): boolean;
+
+        setTime(time: number): boolean;
+
+        getDuration(): number;
+
+        getChained(): Animation[];
+
+        isCompleted(): boolean;
+    }
+}
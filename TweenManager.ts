@@ -0,0 +1,82 @@
+/**
+ * Drives running tweens and timelines, call update with frame delta from animation loop.
+ * Finished animations are removed and animations chained to them are started.
+ */
+class TweenManager {
+    private _animations: Tween.Animation[];
+
+    constructor() {
+        this._animations = [];
+        return this;
+    }
+
+    /**
+     * Creates tween of target and starts it
+     * @param {T} target Object which properties are animated
+     * @returns {Tween<T>}
+     */
+    public tween<T extends object>(target: T): Tween<T> {
+        let tween: Tween<T> = new Tween(target);
+        this.add(tween);
+        return tween;
+    }
+
+    /**
+     * Creates empty timeline and starts it
+     * @returns {Timeline}
+     */
+    public timeline(): Timeline {
+        let timeline: Timeline = new Timeline();
+        this.add(timeline);
+        return timeline;
+    }
+
+    /**
+     * Starts animation (rewinding it)
+     * @param {Tween.Animation} animation
+     */
+    public add(animation: Tween.Animation): TweenManager {
+        animation.start();
+        if (this._animations.indexOf(animation) === -1) this._animations.push(animation);
+        return this;
+    }
+
+    /**
+     * Stops animation leaving properties at their current values
+     * @param {Tween.Animation} animation
+     */
+    public remove(animation: Tween.Animation): TweenManager {
+        let index: number = this._animations.indexOf(animation);
+        if (index !== -1) this._animations.splice(index, 1);
+        return this;
+    }
+
+    /**
+     * Stops all animations
+     */
+    public removeAll(): TweenManager {
+        this._animations = [];
+        return this;
+    }
+
+    /**
+     * Returns running animations
+     * @returns {Tween.Animation[]}
+     */
+    public getAnimations(): Tween.Animation[] {
+        return this._animations.slice();
+    }
+
+    /**
+     * Advances all animations by frame delta
+     * @param {number} delta Time in milliseconds
+     */
+    public update(delta: number): TweenManager {
+        for (let animation of this._animations.slice()) {
+            if (animation.update(delta)) continue;
+            this.remove(animation);
+            for (let next of animation.getChained()) this.add(next);
+        }
+        return this;
+    }
+}
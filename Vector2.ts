@@ -96,6 +96,136 @@ class Vector2 {
         return new Vector2(nx, ny);
     }
 
+    public static Dot(v1: Vector2, v2: Vector2): number {
+        return v1.x * v2.x + v1.y * v2.y;
+    }
+
+    /**
+     * Calculates z component of cross product
+     * @returns {number}
+     */
+    public static Cross(v1: Vector2, v2: Vector2): number {
+        return v1.x * v2.y - v1.y * v2.x;
+    }
+
+    /**
+     * Calculates signed angle from v1 to v2 in range (-PI, PI]
+     * @returns {number}
+     */
+    public static AngleBetween(v1: Vector2, v2: Vector2): number {
+        return Math.atan2(v1.x * v2.y - v1.y * v2.x, v1.x * v2.x + v1.y * v2.y);
+    }
+
+    /**
+     * Calculates angle of vector from the x axis
+     * @returns {number}
+     */
+    public static Angle(v: Vector2): number {
+        return Math.atan2(v.y, v.x);
+    }
+
+    public static FromAngle(angle: number, length?: number): Vector2 {
+        if (length === undefined) length = 1;
+        return new Vector2(Math.cos(angle) * length, Math.sin(angle) * length);
+    }
+
+    public static FromPolar(length: number, angle: number): Vector2 {
+        return new Vector2(Math.cos(angle) * length, Math.sin(angle) * length);
+    }
+
+    public static Lerp(v1: Vector2, v2: Vector2, t: number): Vector2 {
+        let x = v1.x + (v2.x - v1.x) * t;
+        let y = v1.y + (v2.y - v1.y) * t;
+        return new Vector2(x, y);
+    }
+
+    public static ProjectOnto(v: Vector2, onto: Vector2): Vector2 {
+        let lsq: number = onto.x * onto.x + onto.y * onto.y || 1;
+        let scalar: number = (v.x * onto.x + v.y * onto.y) / lsq;
+        return new Vector2(onto.x * scalar, onto.y * scalar);
+    }
+
+    /**
+     * Reflects vector off the surface with given normal
+     * @returns {Vector2}
+     */
+    public static Reflect(v: Vector2, normal: Vector2): Vector2 {
+        let lsq: number = normal.x * normal.x + normal.y * normal.y || 1;
+        let scalar: number = 2 * (v.x * normal.x + v.y * normal.y) / lsq;
+        return new Vector2(v.x - normal.x * scalar, v.y - normal.y * scalar);
+    }
+
+    /**
+     * Returns vector rotated by 90 degrees to the left as seen on canvas (y axis pointing down)
+     * @returns {Vector2}
+     */
+    public static PerpendicularLeft(v: Vector2): Vector2 {
+        return new Vector2(v.y, -v.x);
+    }
+
+    /**
+     * Returns vector rotated by 90 degrees to the right as seen on canvas (y axis pointing down)
+     * @returns {Vector2}
+     */
+    public static PerpendicularRight(v: Vector2): Vector2 {
+        return new Vector2(-v.y, v.x);
+    }
+
+    public static ClampLength(v: Vector2, min: number, max: number): Vector2 {
+        return v.clone().clampLength(min, max);
+    }
+
+    public static Limit(v: Vector2, max: number): Vector2 {
+        return v.clone().limit(max);
+    }
+
+    public static Negate(v: Vector2): Vector2 {
+        return new Vector2(-v.x, -v.y);
+    }
+
+    public static Min(v1: Vector2, v2: Vector2): Vector2 {
+        return new Vector2(Math.min(v1.x, v2.x), Math.min(v1.y, v2.y));
+    }
+
+    public static Max(v1: Vector2, v2: Vector2): Vector2 {
+        return new Vector2(Math.max(v1.x, v2.x), Math.max(v1.y, v2.y));
+    }
+
+    public static Floor(v: Vector2): Vector2 {
+        return new Vector2(Math.floor(v.x), Math.floor(v.y));
+    }
+
+    public static Ceil(v: Vector2): Vector2 {
+        return new Vector2(Math.ceil(v.x), Math.ceil(v.y));
+    }
+
+    public static Round(v: Vector2): Vector2 {
+        return new Vector2(Math.round(v.x), Math.round(v.y));
+    }
+
+    public static Equals(v1: Vector2, v2: Vector2, epsilon?: number): boolean {
+        return v1.equals(v2, epsilon);
+    }
+
+    /**
+     * Converts [x, y] array to Vector2 object
+     * @returns {Vector2}
+     * @param array
+     */
+    public static FromArray(array: number[]): Vector2 {
+        return new Vector2(array[0], array[1]);
+    }
+
+    /**
+     * Converts JSON text or parsed object to Vector2 object
+     * @returns {Vector2}
+     * @param json
+     */
+    public static FromJSON(json: string | { x: number, y: number }): Vector2 {
+        let object: { x: number, y: number } = typeof json === 'string' ? JSON.parse(json) : json;
+        return new Vector2(object.x, object.y);
+    }
+
     /**
      * Converts point object to Vector2 object
      * @returns {Vector2}
@@ -277,13 +407,241 @@ class Vector2 {
 
     /**
      * Sets random direction to vector
+     * @param {Random} random Seedable generator used instead of Math.random
      * @returns {Vector2}
      */
-    public setRandomDirection(): Vector2 {
-        const getRandomArbitrary = (min: number, max: number): number => Math.random() * (max - min) + min;
+    public setRandomDirection(random?: Random): Vector2 {
+        const getRandomArbitrary = (min: number, max: number): number => (random ? random.next() : Math.random()) * (max - min) + min;
         this.x = getRandomArbitrary(-100, 100);
         this.y = getRandomArbitrary(-100, 100);
         this.normalize();
         return this;
     }
+
+    /**
+     * Calculates dot product of two Vectors
+     * @param {Vector2} v
+     * @returns {number}
+     */
+    public dot(v: Vector2): number {
+        return this.x * v.x + this.y * v.y;
+    }
+
+    /**
+     * Calculates z component of cross product of two Vectors
+     * @param {Vector2} v
+     * @returns {number}
+     */
+    public cross(v: Vector2): number {
+        return this.x * v.y - this.y * v.x;
+    }
+
+    /**
+     * Calculates signed angle from this Vector to given one in range (-PI, PI]
+     * @param {Vector2} v
+     * @returns {number}
+     */
+    public angleTo(v: Vector2): number {
+        return Math.atan2(this.x * v.y - this.y * v.x, this.x * v.x + this.y * v.y);
+    }
+
+    /**
+     * Calculates angle of Vector from the x axis
+     * @returns {number}
+     */
+    public angle(): number {
+        return Math.atan2(this.y, this.x);
+    }
+
+    /**
+     * Sets Vector pointing in given direction
+     * @param {number} angle Angle from the x axis, in radians.
+     * @param {number} length Length of vector (default 1)
+     */
+    public setFromAngle(angle: number, length?: number): Vector2 {
+        if (length === undefined) length = 1;
+        this.x = Math.cos(angle) * length;
+        this.y = Math.sin(angle) * length;
+        return this;
+    }
+
+    /**
+     * Sets Vector from polar coordinates
+     * @param {number} length
+     * @param {number} angle Angle from the x axis, in radians.
+     */
+    public setFromPolar(length: number, angle: number): Vector2 {
+        return this.setFromAngle(angle, length);
+    }
+
+    /**
+     * Sets Vector from [x, y] array
+     * @param {number[]} array
+     */
+    public setFromArray(array: number[]): Vector2 {
+        this.x = array[0];
+        this.y = array[1];
+        return this;
+    }
+
+    /**
+     * Linear interpolation towards given Vector
+     * @param {Vector2} v
+     * @param {number} t Interpolation factor, 0 keeps this Vector and 1 gives v
+     */
+    public lerp(v: Vector2, t: number): Vector2 {
+        this.x += (v.x - this.x) * t;
+        this.y += (v.y - this.y) * t;
+        return this;
+    }
+
+    /**
+     * Projects Vector onto given one
+     * @param {Vector2} v
+     */
+    public projectOnto(v: Vector2): Vector2 {
+        let lsq: number = v.x * v.x + v.y * v.y || 1;
+        let scalar: number = (this.x * v.x + this.y * v.y) / lsq;
+        this.x = v.x * scalar;
+        this.y = v.y * scalar;
+        return this;
+    }
+
+    /**
+     * Reflects Vector off the surface with given normal
+     * @param {Vector2} normal Normal of the surface (doesn't have to be normalized)
+     */
+    public reflect(normal: Vector2): Vector2 {
+        let lsq: number = normal.x * normal.x + normal.y * normal.y || 1;
+        let scalar: number = 2 * (this.x * normal.x + this.y * normal.y) / lsq;
+        this.x -= normal.x * scalar;
+        this.y -= normal.y * scalar;
+        return this;
+    }
+
+    /**
+     * Rotates Vector by 90 degrees to the left as seen on canvas (y axis pointing down)
+     */
+    public perpendicularLeft(): Vector2 {
+        let x: number = this.x;
+        this.x = this.y;
+        this.y = -x;
+        return this;
+    }
+
+    /**
+     * Rotates Vector by 90 degrees to the right as seen on canvas (y axis pointing down)
+     */
+    public perpendicularRight(): Vector2 {
+        let x: number = this.x;
+        this.x = -this.y;
+        this.y = x;
+        return this;
+    }
+
+    /**
+     * Keeps length of Vector between min and max, direction is preserved
+     * @param {number} min
+     * @param {number} max
+     */
+    public clampLength(min: number, max: number): Vector2 {
+        let length: number = Math.sqrt(this.x * this.x + this.y * this.y);
+        if (length === 0) return this;
+        if (length < min) return this.multiplyScalar(min / length);
+        if (length > max) return this.multiplyScalar(max / length);
+        return this;
+    }
+
+    /**
+     * Limits length of Vector to max
+     * @param {number} max
+     */
+    public limit(max: number): Vector2 {
+        let lsq: number = this.x * this.x + this.y * this.y;
+        if (lsq > max * max) this.multiplyScalar(max / Math.sqrt(lsq));
+        return this;
+    }
+
+    /**
+     * Inverts direction of Vector
+     */
+    public negate(): Vector2 {
+        this.x = -this.x;
+        this.y = -this.y;
+        return this;
+    }
+
+    /**
+     * Component-wise minimum of two Vectors
+     * @param {Vector2} v
+     */
+    public min(v: Vector2): Vector2 {
+        this.x = Math.min(this.x, v.x);
+        this.y = Math.min(this.y, v.y);
+        return this;
+    }
+
+    /**
+     * Component-wise maximum of two Vectors
+     * @param {Vector2} v
+     */
+    public max(v: Vector2): Vector2 {
+        this.x = Math.max(this.x, v.x);
+        this.y = Math.max(this.y, v.y);
+        return this;
+    }
+
+    /**
+     * Rounds components down
+     */
+    public floor(): Vector2 {
+        this.x = Math.floor(this.x);
+        this.y = Math.floor(this.y);
+        return this;
+    }
+
+    /**
+     * Rounds components up
+     */
+    public ceil(): Vector2 {
+        this.x = Math.ceil(this.x);
+        this.y = Math.ceil(this.y);
+        return this;
+    }
+
+    /**
+     * Rounds components to the nearest integer
+     */
+    public round(): Vector2 {
+        this.x = Math.round(this.x);
+        this.y = Math.round(this.y);
+        return this;
+    }
+
+    /**
+     * Checks if Vectors are equal, components may differ by epsilon
+     * @param {Vector2} v
+     * @param {number} epsilon (default 0)
+     * @returns {boolean}
+     */
+    public equals(v: Vector2, epsilon?: number): boolean {
+        if (epsilon === undefined) epsilon = 0;
+        return Math.abs(this.x - v.x) <= epsilon && Math.abs(this.y - v.y) <= epsilon;
+    }
+
+    /**
+     * Returns [x, y] array
+     * @returns {number[]}
+     */
+    public toArray(): number[] {
+        return [this.x, this.y];
+    }
+
+    /**
+     * Returns plain object used by JSON.stringify
+     * @returns {{x: number, y: number}}
+     */
+    public toJSON(): { x: number, y: number } {
+        return {x: this.x, y: this.y};
+    }
 }
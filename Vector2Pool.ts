@@ -0,0 +1,64 @@
+/**
+ * Pool of reusable Vector2 objects. Temporary vectors are acquired from the pool and released back
+ * instead of being allocated, which keeps garbage collector idle in hot loops.
+ */
+class Vector2Pool {
+    private _free: Vector2[];
+    private _used: Vector2[];
+
+    constructor(size?: number) {
+        this._free = [];
+        this._used = [];
+        for (let i = 0; i < (size || 0); i++) this._free.push(new Vector2());
+        return this;
+    }
+
+    /**
+     * Returns Vector2 from the pool (allocated when pool is empty)
+     * @param {number} x
+     * @param {number} y
+     * @returns {Vector2}
+     */
+    public acquire(x?: number, y?: number): Vector2 {
+        let v: Vector2 = this._free.pop() || new Vector2();
+        v.x = x || 0;
+        v.y = y || 0;
+        this._used.push(v);
+        return v;
+    }
+
+    /**
+     * Returns Vector2 back to the pool, it mustn't be used afterwards
+     * @param {Vector2} v
+     */
+    public release(v: Vector2): void {
+        let index: number = this._used.lastIndexOf(v);
+        if (index === -1) throw new Error('Vector2 does not belong to the pool');
+        this._used[index] = this._used[this._used.length - 1];
+        this._used.pop();
+        this._free.push(v);
+    }
+
+    /**
+     * Returns all acquired vectors back to the pool, e.g. at the end of the frame
+     */
+    public releaseAll(): void {
+        while (this._used.length > 0) this._free.push(this._used.pop()!);
+    }
+
+    /**
+     * Returns number of vectors ready to be acquired
+     * @returns {number}
+     */
+    public available(): number {
+        return this._free.length;
+    }
+
+    /**
+     * Returns number of acquired vectors
+     * @returns {number}
+     */
+    public inUse(): number {
+        return this._used.length;
+    }
+}
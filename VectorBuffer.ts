@@ -0,0 +1,269 @@
+/**
+ * Struct-of-arrays storage of many 2D vectors (x and y components in separate typed arrays).
+ * Bulk operations work in place and don't allocate, so it fits particle-scale workloads.
+ * Capacity grows automatically (doubling) when pushing beyond it.
+ */
+class VectorBuffer {
+    public x: Float32Array | Float64Array;
+    public y: Float32Array | Float64Array;
+    public length: number;
+    private _precision: 'float32' | 'float64';
+
+    constructor(capacity?: number, precision?: 'float32' | 'float64') {
+        this._precision = precision || 'float64';
+        this.x = this._allocate(capacity || 16);
+        this.y = this._allocate(capacity || 16);
+        this.length = 0;
+        return this;
+    }
+
+    /**
+     * Creates buffer containing given points
+     * @param {Array<{x: number, y: number}>} points
+     * @param {'float32' | 'float64'} precision
+     * @returns {VectorBuffer}
+     */
+    public static FromArray(points: Array<{ x: number, y: number, [propName: string]: any }>, precision?: 'float32' | 'float64'): VectorBuffer {
+        let buffer: VectorBuffer = new VectorBuffer(Math.max(1, points.length), precision);
+        for (let p of points) buffer.push(p.x, p.y);
+        return buffer;
+    }
+
+    /**
+     * Compares object-per-vector approach (allocating Vector2 statics), Vector2Pool and VectorBuffer
+     * on particle update: velocity rotation, normalization, scaling and position integration
+     * @param {number} count Number of particles
+     * @param {number} frames Number of simulated frames
+     * @returns {{objects: number, pool: number, buffer: number}} Total time in milliseconds
+     */
+    public static Benchmark(count: number, frames: number): { objects: number, pool: number, buffer: number } {
+        let dt: number = 1 / 60, angle: number = 0.01, speed: number = 50;
+        let origin: Vector2 = new Vector2(0, 0);
+        const create = (): { positions: Vector2[], velocities: Vector2[] } => {
+            let positions: Vector2[] = [], velocities: Vector2[] = [];
+            for (let i = 0; i < count; i++) {
+                positions.push(new Vector2(Math.randomFloat(0, 1000), Math.randomFloat(0, 1000)));
+                velocities.push(new Vector2().setRandomDirection());
+            }
+            return {positions: positions, velocities: velocities};
+        };
+
+        let objects = create();
+        let start: number = performance.now();
+        for (let frame = 0; frame < frames; frame++) {
+            for (let i = 0; i < count; i++) {
+                let v: Vector2 = Vector2.MultiplyScalar(Vector2.Normalize(Vector2.RotateAround(objects.velocities[i], origin, angle)), speed);
+                objects.velocities[i] = v;
+                objects.positions[i] = Vector2.Add(objects.positions[i], Vector2.MultiplyScalar(v, dt));
+            }
+        }
+        let objectsTime: number = performance.now() - start;
+
+        let pooled = create();
+        let pool: Vector2Pool = new Vector2Pool(1);
+        start = performance.now();
+        for (let frame = 0; frame < frames; frame++) {
+            for (let i = 0; i < count; i++) {
+                let v: Vector2 = pooled.velocities[i].rotateAround(origin, angle).normalize().multiplyScalar(speed);
+                let step: Vector2 = pool.acquire(v.x, v.y).multiplyScalar(dt);
+                pooled.positions[i].add(step);
+                pool.release(step);
+            }
+        }
+        let poolTime: number = performance.now() - start;
+
+        let source = create();
+        let positions: VectorBuffer = VectorBuffer.FromArray(source.positions);
+        let velocities: VectorBuffer = VectorBuffer.FromArray(source.velocities);
+        start = performance.now();
+        for (let frame = 0; frame < frames; frame++) {
+            velocities.rotate(angle).normalize().scale(speed);
+            positions.integrate(velocities, dt);
+        }
+        let bufferTime: number = performance.now() - start;
+
+        return {objects: objectsTime, pool: poolTime, buffer: bufferTime};
+    }
+
+    /**
+     * Returns number of vectors which fit without reallocation
+     * @returns {number}
+     */
+    public capacity(): number {
+        return this.x.length;
+    }
+
+    /**
+     * Appends vector
+     * @param {number} x
+     * @param {number} y
+     * @returns {number} Index of appended vector
+     */
+    public push(x: number, y: number): number {
+        if (this.length === this.x.length) this.reserve(this.x.length * 2);
+        this.x[this.length] = x;
+        this.y[this.length] = y;
+        return this.length++;
+    }
+
+    /**
+     * Reads vector at index
+     * @param {number} index
+     * @param {Vector2} out Vector to write into, allocated when omitted
+     * @returns {Vector2}
+     */
+    public get(index: number, out?: Vector2): Vector2 {
+        if (out === undefined) out = new Vector2();
+        out.x = this.x[index];
+        out.y = this.y[index];
+        return out;
+    }
+
+    /**
+     * Writes vector at index
+     * @param {number} index
+     * @param {number} x
+     * @param {number} y
+     */
+    public set(index: number, x: number, y: number): VectorBuffer {
+        this.x[index] = x;
+        this.y[index] = y;
+        return this;
+    }
+
+    /**
+     * Removes vector at index by moving the last one in its place (order is not kept)
+     * @param {number} index
+     */
+    public swapRemove(index: number): VectorBuffer {
+        if (index < 0 || index >= this.length) throw new RangeError(`Index ${index} out of range [0, ${this.length})`);
+        this.length--;
+        this.x[index] = this.x[this.length];
+        this.y[index] = this.y[this.length];
+        return this;
+    }
+
+    /**
+     * Removes all vectors, capacity is kept
+     */
+    public clear(): VectorBuffer {
+        this.length = 0;
+        return this;
+    }
+
+    /**
+     * Makes sure buffer can hold given number of vectors
+     * @param {number} capacity
+     */
+    public reserve(capacity: number): VectorBuffer {
+        if (capacity <= this.x.length) return this;
+        let x = this._allocate(capacity), y = this._allocate(capacity);
+        x.set(this.x.subarray(0, this.length));
+        y.set(this.y.subarray(0, this.length));
+        this.x = x;
+        this.y = y;
+        return this;
+    }
+
+    /**
+     * Component-wise addition of buffer of the same length
+     * @param {VectorBuffer} buffer
+     */
+    public add(buffer: VectorBuffer): VectorBuffer {
+        let x = this.x, y = this.y, bx = buffer.x, by = buffer.y;
+        for (let i = 0; i < this.length; i++) {
+            x[i] += bx[i];
+            y[i] += by[i];
+        }
+        return this;
+    }
+
+    /**
+     * Adds the same vector to every vector
+     * @param {number} dx
+     * @param {number} dy
+     */
+    public translate(dx: number, dy: number): VectorBuffer {
+        let x = this.x, y = this.y;
+        for (let i = 0; i < this.length; i++) {
+            x[i] += dx;
+            y[i] += dy;
+        }
+        return this;
+    }
+
+    /**
+     * Multiplies every vector by scalar
+     * @param {number} s
+     */
+    public scale(s: number): VectorBuffer {
+        let x = this.x, y = this.y;
+        for (let i = 0; i < this.length; i++) {
+            x[i] *= s;
+            y[i] *= s;
+        }
+        return this;
+    }
+
+    /**
+     * Sets length of every vector to 1, zero vectors are kept
+     */
+    public normalize(): VectorBuffer {
+        let x = this.x, y = this.y;
+        for (let i = 0; i < this.length; i++) {
+            let length: number = Math.sqrt(x[i] * x[i] + y[i] * y[i]) || 1;
+            x[i] /= length;
+            y[i] /= length;
+        }
+        return this;
+    }
+
+    /**
+     * Rotates every vector around center by angle radians.
+     * @param {number} angle
+     * @param {Vector2} center Origin when omitted
+     */
+    public rotate(angle: number, center?: Vector2): VectorBuffer {
+        let c: number = Math.cos(angle), s = Math.sin(angle);
+        let cx: number = center === undefined ? 0 : center.x, cy: number = center === undefined ? 0 : center.y;
+        let x = this.x, y = this.y;
+        for (let i = 0; i < this.length; i++) {
+            let dx: number = x[i] - cx, dy: number = y[i] - cy;
+            x[i] = dx * c - dy * s + cx;
+            y[i] = dx * s + dy * c + cy;
+        }
+        return this;
+    }
+
+    /**
+     * Moves positions (this buffer) by velocities multiplied by time step
+     * @param {VectorBuffer} velocities Buffer of the same length
+     * @param {number} dt Time step
+     */
+    public integrate(velocities: VectorBuffer, dt: number): VectorBuffer {
+        let x = this.x, y = this.y, vx = velocities.x, vy = velocities.y;
+        for (let i = 0; i < this.length; i++) {
+            x[i] += vx[i] * dt;
+            y[i] += vy[i] * dt;
+        }
+        return this;
+    }
+
+    /**
+     * Converts buffer to Vector2 array
+     * @returns {Vector2[]}
+     */
+    public toArray(): Vector2[] {
+        let toReturn: Vector2[] = [];
+        for (let i = 0; i < this.length; i++) toReturn.push(new Vector2(this.x[i], this.y[i]));
+        return toReturn;
+    }
+
+    /**
+     * Creates typed array of buffer's precision
+     * @private
+     */
+    private _allocate(capacity: number): Float32Array | Float64Array {
+        return this._precision === 'float32' ? new Float32Array(capacity) : new Float64Array(capacity);
+    }
+}
@@ -0,0 +1,66 @@
+/// <reference path="Test.ts" />
+
+namespace CanvasTest {
+
+    //Context stub remembering the last transformation
+    function RecordingContext(): { setTransform: (...args: number[]) => void, transform: number[] } {
+        let context = {
+            transform: <number[]>[],
+            setTransform: (...args: number[]) => {
+                context.transform = args;
+            }
+        };
+        return context;
+    }
+
+    Test.Case('client point is mapped through border, padding and CSS scaling', () => {
+        //Canvas 200x100 shown in 400x200 content box with 2px border and 8px padding
+        let rect = {left: 10, top: 20, width: 420, height: 220};
+        let style = {borderLeftWidth: '2px', borderTopWidth: '2px', borderRightWidth: '2px', borderBottomWidth: '2px', paddingLeft: '8px', paddingTop: '8px', paddingRight: '8px', paddingBottom: '8px'};
+        Test.Points([Canvas.ClientToCanvas({x: 20, y: 30}, rect, style, 200, 100)], [{x: 0, y: 0}]);
+        Test.Points([Canvas.ClientToCanvas({x: 420, y: 230}, rect, style, 200, 100)], [{x: 200, y: 100}]);
+        Test.Points([Canvas.ClientToCanvas({x: 120, y: 80}, rect, {}, 200, 100)], [{x: 52.38095238095238, y: 27.27272727272727}], 1e-9);
+    });
+
+    Test.Case('fit mode takes size of parent', () => {
+        let canvas: Canvas = new Canvas(100, 100, {resize: 'fit', element: Test.CanvasElement(undefined, {clientWidth: 300, clientHeight: 150})});
+        let sizes: number[][] = [];
+        canvas.onResize((width, height, pixelRatio) => sizes.push([width, height, pixelRatio]));
+        canvas.resize();
+        Test.Equal(canvas.width, 300);
+        Test.Equal(canvas.height, 150);
+        Test.Equal(canvas.DOMElement.width, 300);
+        Test.Equal(canvas.DOMElement.style.height, '150px');
+        Test.Equal(sizes.join(';'), '300,150,1', 'Resize callbacks');
+        canvas.resize();
+        Test.Equal(sizes.length, 1, 'Unchanged size calls no callback');
+    });
+
+    Test.Case('letterbox mode scales canvas into parent keeping drawing size', () => {
+        let context = RecordingContext();
+        let canvas: Canvas = new Canvas(200, 100, {resize: 'letterbox', element: Test.CanvasElement(context, {clientWidth: 300, clientHeight: 300})});
+        canvas.resize();
+        Test.Equal(canvas.width, 200, 'Drawing width');
+        Test.Equal(canvas.height, 100, 'Drawing height');
+        let style: CSSStyleDeclaration = canvas.DOMElement.style;
+        Test.Equal(style.width, '300px');
+        Test.Equal(style.height, '150px');
+        Test.Equal(style.marginLeft, '0px');
+        Test.Equal(style.marginTop, '75px');
+        Test.Equal(canvas.DOMElement.width, 300, 'Backing store width');
+        Test.Equal(context.transform.join(), '1.5,0,0,1.5,0,0');
+    });
+
+    Test.Case('pixel ratio sizes backing store and scales context', () => {
+        let context = RecordingContext();
+        let canvas: Canvas = new Canvas(200, 100, {pixelRatio: 2, element: Test.CanvasElement(context)});
+        Test.Equal(canvas.DOMElement.width, 400);
+        Test.Equal(canvas.DOMElement.height, 200);
+        Test.Equal(canvas.DOMElement.style.width, '200px');
+        Test.Equal(context.transform.join(), '2,0,0,2,0,0');
+        canvas.setPixelRatio(1.5).setSize(101, 51);
+        Test.Equal(canvas.DOMElement.width, 152, 'Backing store is rounded');
+        Test.Close(context.transform[0], 152 / 101);
+        Test.Close(context.transform[3], 77 / 51);
+    });
+}
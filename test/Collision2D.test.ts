@@ -0,0 +1,37 @@
+/// <reference path="Test.ts" />
+
+namespace Collision2DTest {
+
+    const circle = {center: {x: 0, y: 0}, radius: 5};
+    const square = [{x: -5, y: -5}, {x: 5, y: -5}, {x: 5, y: 5}, {x: -5, y: 5}];
+
+    Test.Case('raycasts hit nearest surface with normal facing the ray', () => {
+        let ray: Collision2D.Ray = {origin: {x: -20, y: 0}, direction: {x: 3, y: 0}};
+        let hit = Collision2D.RaycastCircle(ray, circle);
+        if (hit === null) throw new Error('Expected circle hit');
+        Test.Close(hit.distance, 15);
+        Test.Points([hit.point, hit.normal], [{x: -5, y: 0}, {x: -1, y: 0}]);
+        hit = Collision2D.RaycastPolygon(ray, square);
+        if (hit === null) throw new Error('Expected polygon hit');
+        Test.Close(hit.distance, 15);
+        Test.Equal(hit.edgeIndex, 3);
+        hit = Collision2D.RaycastShapes(ray, [[{x: 10, y: -1}, {x: 10, y: 1}], circle]);
+        Test.Equal(hit !== null && hit.shapeIndex, 1, 'Closest shape');
+        Test.Equal(Collision2D.RaycastCircle({origin: ray.origin, direction: ray.direction, maxDistance: 10}, circle), null, 'Beyond max distance');
+    });
+
+    Test.Case('ray starting inside circle hits its exit point', () => {
+        let hit = Collision2D.RaycastCircle({origin: {x: 0, y: 3}, direction: {x: 0, y: 1}}, circle);
+        if (hit === null) throw new Error('Expected hit');
+        Test.Close(hit.distance, 2);
+        Test.Points([hit.normal], [{x: 0, y: -1}]);
+    });
+
+    Test.Case('ray with zero direction hits nothing', () => {
+        let ray: Collision2D.Ray = {origin: {x: 1, y: 1}, direction: {x: 0, y: 0}};
+        Test.Equal(Collision2D.RaycastCircle(ray, circle), null, 'Circle');
+        Test.Equal(Collision2D.RaycastPolygon(ray, square), null, 'Polygon');
+        Test.Equal(Collision2D.RaycastLineSegment(ray, [{x: 1, y: 1}, {x: 2, y: 2}]), null, 'Line segment');
+        Test.Equal(Collision2D.RaycastShapesAll(ray, [circle, square]).length, 0, 'Shapes');
+    });
+}
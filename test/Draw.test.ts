@@ -0,0 +1,168 @@
+/// <reference path="Test.ts" />
+
+namespace DrawTest {
+
+    /**
+     * Recording mock of drawing context, save and restore keep stack of state like canvas does
+     */
+    class RecordingContext implements Draw.Context {
+        public fillStyle: string | CanvasGradient | CanvasPattern = '#000000';
+        public strokeStyle: string | CanvasGradient | CanvasPattern = '#000000';
+        public lineWidth: number = 1;
+        public lineCap: CanvasLineCap = 'butt';
+        public lineJoin: CanvasLineJoin = 'miter';
+        public lineDashOffset: number = 0;
+        public shadowColor: string = 'rgba(0, 0, 0, 0)';
+        public shadowBlur: number = 0;
+        public shadowOffsetX: number = 0;
+        public shadowOffsetY: number = 0;
+        public globalAlpha: number = 1;
+        public font: string = '10px sans-serif';
+        public textAlign: CanvasTextAlign = 'start';
+        public textBaseline: CanvasTextBaseline = 'alphabetic';
+        public lineDash: number[] = [];
+        public calls: string[] = [];
+        //State at each fill, stroke and fillText call
+        public painted: Array<{ call: string, state: { [key: string]: unknown } }> = [];
+        private _stack: Array<{ [key: string]: unknown }> = [];
+
+        public getState(): { [key: string]: unknown } {
+            return {
+                fillStyle: this.fillStyle, strokeStyle: this.strokeStyle, lineWidth: this.lineWidth, lineCap: this.lineCap,
+                lineJoin: this.lineJoin, lineDashOffset: this.lineDashOffset, shadowColor: this.shadowColor, shadowBlur: this.shadowBlur,
+                shadowOffsetX: this.shadowOffsetX, shadowOffsetY: this.shadowOffsetY, globalAlpha: this.globalAlpha, font: this.font,
+                textAlign: this.textAlign, textBaseline: this.textBaseline, lineDash: this.lineDash.join()
+            };
+        }
+
+        public save(): void {
+            this.calls.push('save');
+            this._stack.push(Object.assign(this.getState(), {lineDash: this.lineDash}));
+        }
+
+        public restore(): void {
+            this.calls.push('restore');
+            Object.assign(this, this._stack.pop());
+        }
+
+        public setLineDash(segments: number[]): void {
+            this.lineDash = segments;
+        }
+
+        public beginPath(): void {
+            this.calls.push('beginPath');
+        }
+
+        public closePath(): void {
+            this.calls.push('closePath');
+        }
+
+        public moveTo(x: number, y: number): void {
+            this.calls.push(`moveTo(${x}, ${y})`);
+        }
+
+        public lineTo(x: number, y: number): void {
+            this.calls.push(`lineTo(${x}, ${y})`);
+        }
+
+        public arc(x: number, y: number, radius: number): void {
+            this.calls.push(`arc(${x}, ${y}, ${radius})`);
+        }
+
+        public rect(x: number, y: number, width: number, height: number): void {
+            this.calls.push(`rect(${x}, ${y}, ${width}, ${height})`);
+        }
+
+        public fill(fillRule?: CanvasFillRule): void {
+            this._paint(`fill(${fillRule})`);
+        }
+
+        public stroke(): void {
+            this._paint('stroke');
+        }
+
+        public fillText(text: string, x: number, y: number): void {
+            this._paint(`fillText(${text}, ${x}, ${y})`);
+        }
+
+        private _paint(call: string): void {
+            this.calls.push(call);
+            this.painted.push({call: call, state: this.getState()});
+        }
+    }
+
+    const square = [{x: 0, y: 0}, {x: 10, y: 0}, {x: 10, y: 10}, {x: 0, y: 10}];
+
+    Test.Case('style is applied inside save and restore', () => {
+        let ctx: RecordingContext = new RecordingContext();
+        let initial = ctx.getState();
+        Draw.Polygon(ctx, square, {
+            fill: 'red', stroke: 'blue', lineWidth: 3, lineDash: [4, 2], lineDashOffset: 1, lineCap: 'round', lineJoin: 'bevel',
+            shadow: {color: 'black', blur: 5, offsetX: 1, offsetY: 2}, alpha: 0.5, font: '12px serif', textAlign: 'center', textBaseline: 'top'
+        });
+        Test.Equal(ctx.calls[0], 'save');
+        Test.Equal(ctx.calls[ctx.calls.length - 1], 'restore');
+        let expected: { [key: string]: unknown } = {
+            fillStyle: 'red', strokeStyle: 'blue', lineWidth: 3, lineCap: 'round', lineJoin: 'bevel', lineDashOffset: 1, shadowColor: 'black',
+            shadowBlur: 5, shadowOffsetX: 1, shadowOffsetY: 2, globalAlpha: 0.5, font: '12px serif', textAlign: 'center', textBaseline: 'top', lineDash: '4,2'
+        };
+        for (let painted of ctx.painted) {
+            for (let key of Object.keys(expected)) Test.Equal(painted.state[key], expected[key], `${key} at ${painted.call}`);
+        }
+        let state = ctx.getState();
+        for (let key of Object.keys(initial)) Test.Equal(state[key], initial[key], `${key} after restore`);
+    });
+
+    Test.Case('shape is filled with fill, stroked with stroke or without fill', () => {
+        const paints = (style: Draw.Style) => {
+            let ctx: RecordingContext = new RecordingContext();
+            Draw.Circle(ctx, {center: {x: 0, y: 0}, radius: 5}, style);
+            return ctx.painted.map(painted => painted.call).join();
+        };
+        Test.Equal(paints({}), 'stroke', 'Without style');
+        Test.Equal(paints({fill: 'red'}), 'fill(nonzero)', 'Fill only');
+        Test.Equal(paints({stroke: 'red'}), 'stroke', 'Stroke only');
+        Test.Equal(paints({fill: 'red', stroke: 'blue'}), 'fill(nonzero),stroke', 'Fill and stroke');
+
+        let ctx: RecordingContext = new RecordingContext();
+        Draw.LineSegment(ctx, [{x: 0, y: 0}, {x: 5, y: 5}], {fill: 'green'});
+        Test.Equal(ctx.painted.map(painted => painted.call).join(), 'stroke', 'Line is only stroked');
+        Test.Equal(ctx.painted[0].state.strokeStyle, 'green', 'Line uses fill as stroke');
+    });
+
+    Test.Case('polygons are traced as one path filled with even-odd rule', () => {
+        let ctx: RecordingContext = new RecordingContext();
+        let hole = [{x: 2, y: 2}, {x: 2, y: 4}, {x: 4, y: 4}];
+        Draw.Polygons(ctx, [square, hole], {fill: 'red'});
+        Test.Equal(ctx.calls.join('; '), 'save; beginPath; moveTo(0, 0); lineTo(10, 0); lineTo(10, 10); lineTo(0, 10); closePath; ' +
+            'moveTo(2, 2); lineTo(2, 4); lineTo(4, 4); closePath; fill(evenodd); restore');
+    });
+
+    Test.Case('arrow strokes shaft and fills head with stroke color', () => {
+        let ctx: RecordingContext = new RecordingContext();
+        Draw.Arrow(ctx, {x: 0, y: 0}, new Vector2(20, 0), {stroke: 'blue'});
+        Test.Equal(ctx.calls.join('; '), 'save; beginPath; moveTo(0, 0); lineTo(12, 0); stroke; restore; ' +
+            'save; beginPath; moveTo(20, 0); lineTo(12, 4); lineTo(12, -4); closePath; fill(nonzero); restore');
+        Test.Equal(ctx.painted[1].state.fillStyle, 'blue', 'Head color');
+        ctx = new RecordingContext();
+        Draw.Arrow(ctx, {x: 0, y: 0}, new Vector2(0, 0));
+        Test.Equal(ctx.calls.length, 0, 'Zero vector draws nothing');
+    });
+
+    Test.Case('debug raycast draws ray, hit point, normal and distance', () => {
+        let ctx: RecordingContext = new RecordingContext();
+        let debug: DebugDraw = new DebugDraw(ctx);
+        debug.raycast({origin: {x: 0, y: 0}, direction: {x: 2, y: 0}}, {distance: 10, point: {x: 10, y: 0}, normal: {x: -1, y: 0}, edgeIndex: -1});
+        Test.Equal(ctx.calls.join('; '), 'save; beginPath; moveTo(0, 0); lineTo(10, 0); stroke; restore; ' +
+            'save; beginPath; moveTo(13, 0); arc(10, 0, 3); fill(nonzero); restore; ' +
+            'save; beginPath; moveTo(10, 0); lineTo(-2, 0); stroke; restore; ' +
+            'save; beginPath; moveTo(-10, 0); lineTo(-2, -4); lineTo(-2, 4); closePath; fill(nonzero); restore; ' +
+            'save; fillText(10.00, 15, -5); restore');
+
+        ctx = new RecordingContext();
+        debug = new DebugDraw(ctx);
+        debug.showLabels = false;
+        debug.raycast({origin: {x: 0, y: 0}, direction: {x: 0, y: 1}, maxDistance: 50}, null);
+        Test.Equal(ctx.calls.join('; '), 'save; beginPath; moveTo(0, 0); lineTo(0, 50); stroke; restore', 'Missed ray');
+    });
+}
@@ -0,0 +1,90 @@
+/// <reference path="Test.ts" />
+
+namespace GameLoopTest {
+
+    //Loop with 10 ms updates driven by manual scheduler, records frame info of updates and renders
+    function Setup(maxFrameTime?: number) {
+        let scheduler = GameLoop.ManualScheduler();
+        let loop: GameLoop = new GameLoop({fixedStep: 10, maxFrameTime: maxFrameTime, scheduler: scheduler});
+        let updates: FrameInfo[] = [], renders: FrameInfo[] = [];
+        loop.addUpdate(info => updates.push(info)).addRender(info => renders.push(info)).start();
+        return {scheduler: scheduler, loop: loop, updates: updates, renders: renders};
+    }
+
+    Test.Case('frame time is split into fixed updates and remainder is carried over', () => {
+        let {scheduler, updates, renders} = Setup();
+        scheduler.advance(25);
+        Test.Equal(updates.length, 2, 'Updates after 25 ms');
+        Test.Equal(renders.length, 1, 'Renders after one frame');
+        Test.Equal(updates[1].delta, 10);
+        Test.Equal(updates[1].elapsed, 20);
+        Test.Equal(updates[1].frame, 1);
+        scheduler.advance(5);
+        Test.Equal(updates.length, 3, 'Remainder completes next update');
+        Test.Equal(renders[1].frame, 1);
+        Test.Equal(renders[1].delta, 5);
+    });
+
+    Test.Case('render alpha is fraction of update left in accumulator', () => {
+        let {scheduler, renders} = Setup();
+        scheduler.advance(25);
+        Test.Close(renders[0].alpha, 0.5);
+        scheduler.advance(2);
+        Test.Close(renders[1].alpha, 0.7);
+        Test.Equal(renders[1].elapsed, 20);
+    });
+
+    Test.Case('long frame is clamped to maxFrameTime', () => {
+        let {scheduler, loop, updates} = Setup(50);
+        scheduler.advance(1000);
+        Test.Equal(updates.length, 5);
+        Test.Equal(loop.getElapsed(), 50);
+    });
+
+    Test.Case('paused loop renders without updates, step runs updates manually', () => {
+        let {scheduler, loop, updates, renders} = Setup();
+        loop.pause();
+        scheduler.advance(100);
+        Test.Equal(updates.length, 0, 'Updates while paused');
+        Test.Equal(renders.length, 1, 'Renders while paused');
+        Test.Equal(renders[0].delta, 0);
+        loop.step(3);
+        Test.Equal(updates.length, 3, 'Updates after step');
+        Test.Equal(renders.length, 2, 'Step renders once');
+        Test.Equal(loop.getElapsed(), 30);
+        loop.resume();
+        scheduler.advance(10);
+        Test.Equal(updates.length, 4, 'Updates after resume');
+        Test.Equal(loop.isPaused(), false);
+    });
+
+    Test.Case('time scale changes game time, stop drops accumulated time', () => {
+        let {scheduler, loop, updates} = Setup();
+        loop.timeScale = 0.5;
+        scheduler.advance(40);
+        Test.Equal(updates.length, 2);
+        Test.Equal(loop.getElapsed(), 20);
+        loop.timeScale = 2;
+        scheduler.advance(5);
+        Test.Equal(updates.length, 3);
+        loop.stop();
+        scheduler.advance(100);
+        Test.Equal(updates.length, 3, 'Updates after stop');
+        Test.Equal(loop.isRunning(), false);
+    });
+
+    Test.Case('callbacks run in priority order, equal priorities keep insertion order', () => {
+        let scheduler = GameLoop.ManualScheduler();
+        let loop: GameLoop = new GameLoop({fixedStep: 10, scheduler: scheduler});
+        let order: string[] = [];
+        const record = (name: string) => () => {
+            order.push(name);
+        };
+        let removed = record('removed');
+        loop.addUpdate(record('physics'), 1).addUpdate(record('input'), -1).addUpdate(record('ai'), 1).addUpdate(record('logic'));
+        loop.addUpdate(removed).remove(removed);
+        loop.addRender(record('hud'), 1).addRender(record('world')).start();
+        scheduler.advance(10);
+        Test.Equal(order.join(), 'input,logic,physics,ai,world,hud');
+    });
+}
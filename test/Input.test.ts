@@ -0,0 +1,98 @@
+/// <reference path="Test.ts" />
+
+namespace InputTest {
+
+    function Setup(options?: InputOptions): { input: Input, log: string[] } {
+        let input: Input = new Input(new Canvas(200, 200, {element: Test.CanvasElement()}), options);
+        let log: string[] = [];
+        for (let type of <Array<InputGesture['type']>>['tap', 'doubletap', 'dragstart', 'drag', 'dragend', 'pinchstart', 'pinch', 'pinchend']) {
+            input.on(type, gesture => log.push(type));
+        }
+        return {input: input, log: log};
+    }
+
+    Test.Case('pressed and released state lasts one frame', () => {
+        let {input} = Setup();
+        input.inject({type: 'keydown', code: 'Space'}).inject({type: 'wheel', deltaY: 120});
+        Test.Equal(input.isDown('Space'), true);
+        Test.Equal(input.wasPressed('Space'), true);
+        Test.Equal(input.wheelDelta.y, 120);
+        input.update();
+        Test.Equal(input.wasPressed('Space'), false, 'Pressed after update');
+        Test.Equal(input.wheelDelta.y, 0, 'Wheel after update');
+        input.inject({type: 'keydown', code: 'Space'});
+        Test.Equal(input.wasPressed('Space'), false, 'Key repeat is no press');
+        input.inject({type: 'keyup', code: 'Space'});
+        Test.Equal(input.isDown('Space'), false);
+        Test.Equal(input.wasReleased('Space'), true);
+        input.update();
+        Test.Equal(input.wasReleased('Space'), false, 'Released after update');
+    });
+
+    Test.Case('pointer buttons are tracked as keys', () => {
+        let {input} = Setup();
+        input.inject({type: 'pointerdown', x: 10, y: 20, button: 2});
+        Test.Equal(input.isDown('Pointer2'), true);
+        Test.Points([input.pointer], [{x: 10, y: 20}]);
+        input.inject({type: 'pointerdown', id: 5, x: 0, y: 0, pointerType: 'touch'});
+        Test.Equal(input.isDown('Pointer0'), true, 'Touch acts as primary button');
+    });
+
+    Test.Case('action is released only when none of its bindings is held', () => {
+        let {input} = Setup();
+        input.bind('jump', ['Space', 'KeyW']);
+        input.inject({type: 'keydown', code: 'Space'}).inject({type: 'keydown', code: 'KeyW'});
+        Test.Equal(input.wasActionPressed('jump'), true);
+        input.update();
+        input.inject({type: 'keyup', code: 'Space'});
+        Test.Equal(input.isActionDown('jump'), true, 'Held by KeyW');
+        Test.Equal(input.wasActionReleased('jump'), false, 'Released while KeyW held');
+        input.update();
+        input.inject({type: 'keyup', code: 'KeyW'});
+        Test.Equal(input.wasActionReleased('jump'), true);
+        input.unbind('jump');
+        Test.Equal(input.wasActionReleased('jump'), false, 'Unbound action');
+    });
+
+    Test.Case('tap and double tap follow their time limits', () => {
+        let {input, log} = Setup();
+        input.inject({type: 'pointerdown', x: 50, y: 50, time: 0}).inject({type: 'pointerup', x: 50, y: 50, time: 100});
+        input.inject({type: 'pointerdown', x: 52, y: 50, time: 200}).inject({type: 'pointerup', x: 52, y: 50, time: 300});
+        Test.Equal(log.join(), 'tap,doubletap');
+        input.inject({type: 'pointerdown', x: 50, y: 50, time: 1000}).inject({type: 'pointerup', x: 50, y: 50, time: 1300});
+        Test.Equal(log.join(), 'tap,doubletap', 'Long press is no tap');
+        input.inject({type: 'pointerdown', x: 50, y: 50, time: 2000}).inject({type: 'pointerup', x: 50, y: 50, time: 2100});
+        input.inject({type: 'pointerdown', x: 50, y: 50, time: 2500}).inject({type: 'pointerup', x: 50, y: 50, time: 2600});
+        Test.Equal(log.join(), 'tap,doubletap,tap,tap', 'Slow second tap');
+        Test.Equal(input.gestures.length, 4, 'Gestures of frame');
+    });
+
+    Test.Case('drag starts after threshold', () => {
+        let {input, log} = Setup({dragThreshold: 10});
+        let gestures: InputGesture[] = [];
+        input.on('drag', gesture => gestures.push(gesture));
+        input.inject({type: 'pointerdown', x: 0, y: 0, time: 0}).inject({type: 'pointermove', x: 6, y: 0});
+        Test.Equal(log.length, 0, 'Gestures below threshold');
+        input.inject({type: 'pointermove', x: 10, y: 0}).inject({type: 'pointermove', x: 15, y: 5});
+        input.inject({type: 'pointerup', x: 15, y: 5, time: 50});
+        Test.Equal(log.join(), 'dragstart,drag,dragend');
+        Test.Points([gestures[0].delta, gestures[0].start], [{x: 5, y: 5}, {x: 0, y: 0}]);
+    });
+
+    Test.Case('pinch reports scale and ends drag of first contact', () => {
+        let {input, log} = Setup();
+        let scales: number[] = [];
+        input.on('pinch', gesture => scales.push(gesture.scale));
+        input.inject({type: 'pointerdown', id: 1, x: 100, y: 100, pointerType: 'touch', time: 0});
+        input.inject({type: 'pointermove', id: 1, x: 80, y: 100});
+        input.inject({type: 'pointerdown', id: 2, x: 120, y: 100, pointerType: 'touch', time: 10});
+        input.inject({type: 'pointermove', id: 2, x: 160, y: 100});
+        Test.Close(scales[0], 2);
+        Test.Equal(input.getContacts().length, 2);
+        input.inject({type: 'pointerup', id: 1, x: 80, y: 100, time: 20});
+        input.inject({type: 'pointermove', id: 2, x: 180, y: 100});
+        input.inject({type: 'pointerup', id: 2, x: 180, y: 100, time: 30});
+        Test.Equal(log.join(), 'dragstart,dragend,pinchstart,pinch,pinchend');
+        Test.Equal(input.isDown('Pointer0'), false, 'Released after last contact');
+    });
+}
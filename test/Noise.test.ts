@@ -0,0 +1,60 @@
+/// <reference path="Test.ts" />
+
+namespace NoiseTest {
+
+    //Reference values of seed 42 at points (0.3, 0.7), (1.25, -3.75) and (10.1, 7.3), they change only when output changes
+    const points: number[][] = [[0.3, 0.7], [1.25, -3.75], [10.1, 7.3]];
+    const noise: Noise = new Noise(42);
+
+    function Reference(sample: (x: number, y: number) => number, expected: number[]): void {
+        for (let i = 0; i < points.length; i++) {
+            Test.Close(sample(points[i][0], points[i][1]), expected[i], 1e-12, `Value at (${points[i].join(', ')})`);
+        }
+    }
+
+    Test.Case('perlin matches reference values', () => {
+        Reference((x, y) => noise.perlin(x, y), [0.024956049826262865, 0.1585353414559133, 0.25688641984252036]);
+        Test.Close(new Noise('terrain').perlin(0.5, 0.5), 0.42677669529663687, 1e-12, 'String seed');
+    });
+
+    Test.Case('simplex matches reference values', () => {
+        Reference((x, y) => noise.simplex(x, y), [0.8598921321731434, -0.4900949629586355, 0.1628852219819218]);
+        Test.Close(new Noise('terrain').simplex(0.5, 0.5), 0.3071565136272162, 1e-12, 'String seed');
+    });
+
+    Test.Case('value matches reference values', () => {
+        Reference((x, y) => noise.value(x, y), [-0.7901847289223529, 0.6840274885589, 0.6967609684831376]);
+        Test.Close(new Noise('terrain').value(0.5, 0.5), 0.0549019607843137, 1e-12, 'String seed');
+    });
+
+    Test.Case('fractal noises match reference values', () => {
+        Reference((x, y) => noise.fbm(x, y), [0.04656456875290124, 0.1274444846989583, 0.31159496755291766]);
+        Reference((x, y) => noise.fbm(x, y, {type: 'simplex', octaves: 3, frequency: 0.5}), [0.15171938670009294, -0.4829102333502873, 0.3685769514100422]);
+        Reference((x, y) => noise.ridged(x, y), [0.6937547517218856, 0.7661476522746217, 0.4331239838724893]);
+        Reference((x, y) => noise.turbulence(x, y), [0.19224136350162885, 0.1274444846989583, 0.35570806208540234]);
+        Reference((x, y) => noise.warp(x, y), [-0.11818308520517336, 0.10943496602208001, -0.01118430620553841]);
+    });
+
+    Test.Case('seed as number, string or Random gives the same generator', () => {
+        Test.Equal(new Noise(new Random(42)).perlin(0.3, 0.7), noise.perlin(0.3, 0.7));
+        Test.Equal(new Noise('terrain').perlin(1.5, 2.5), new Noise('terrain').perlin(1.5, 2.5));
+        Test.Equal(new Noise(1).perlin(0.3, 0.7) !== new Noise(2).perlin(0.3, 0.7), true, 'Different seeds differ');
+    });
+
+    Test.Case('perlin is zero at lattice points and tiles with period', () => {
+        for (let i = -3; i <= 3; i++) Test.Close(noise.perlin(i, 2 * i + 1), 0, 1e-12, 'Lattice point');
+        Test.Close(noise.perlin(4.3, 0.7, 4), noise.perlin(0.3, 0.7, 4), 1e-12, 'Period along x');
+        Test.Close(noise.perlin(0.3, 8.7, 4), noise.perlin(0.3, 0.7, 4), 1e-12, 'Period along y');
+        Test.Close(noise.value(6, 7, 4), noise.value(2, 3, 4), 1e-12, 'Period of value noise');
+    });
+
+    Test.Case('base noises stay in range [-1, 1]', () => {
+        let random: Random = new Random(7);
+        for (let i = 0; i < 2000; i++) {
+            let x: number = random.float(-100, 100), y: number = random.float(-100, 100);
+            for (let value of [noise.perlin(x, y), noise.simplex(x, y), noise.value(x, y)]) {
+                if (value < -1 || value > 1) throw new Error(`Value ${value} at (${x}, ${y}) out of range`);
+            }
+        }
+    });
+}
@@ -0,0 +1,111 @@
+/// <reference path="Test.ts" />
+
+namespace PolygonSerializationTest {
+
+    //Outer rings are clockwise on canvas (positive area) and holes counter-clockwise, as writers output them
+    const square = {
+        outer: [{x: 0, y: 0}, {x: 10, y: 0}, {x: 10, y: 10}, {x: 0, y: 10}],
+        holes: [[{x: 2, y: 2}, {x: 2, y: 4}, {x: 4, y: 4}, {x: 4, y: 2}], [{x: 6, y: 6}, {x: 6, y: 8}, {x: 8, y: 8}, {x: 8, y: 6}]]
+    };
+    const triangle = {
+        outer: [{x: 20.5, y: 0}, {x: 30.25, y: 5}, {x: 20.5, y: 10}],
+        holes: []
+    };
+
+    function SamePolygons(actual: PolygonBoolean.PolygonWithHoles[], expected: PolygonBoolean.PolygonWithHoles[]): void {
+        Test.Equal(actual.length, expected.length, 'Number of polygons');
+        for (let i = 0; i < expected.length; i++) {
+            Test.Points(actual[i].outer, expected[i].outer);
+            Test.Equal(actual[i].holes.length, expected[i].holes.length, 'Number of holes');
+            for (let j = 0; j < expected[i].holes.length; j++) Test.Points(actual[i].holes[j], expected[i].holes[j]);
+        }
+    }
+
+    Test.Case('SVG path round trip keeps polygons and holes', () => {
+        let rings = [square.outer].concat(square.holes, [triangle.outer]);
+        let parsed = PolygonSerialization.FromSVGPath(PolygonSerialization.ToSVGPath(rings));
+        Test.Equal(parsed.length, rings.length, 'Number of subpaths');
+        for (let i = 0; i < rings.length; i++) Test.Points(parsed[i], rings[i]);
+    });
+
+    Test.Case('SVG path round trip rounds to precision', () => {
+        let d: string = PolygonSerialization.ToSVGPath([[{x: 1.23456, y: 0}, {x: 2, y: 1.98765}, {x: 0, y: 2}]], 2);
+        Test.Equal(d, 'M1.23 0 L2 1.99 L0 2 Z');
+        Test.Points(PolygonSerialization.FromSVGPath(d)[0], [{x: 1.23, y: 0}, {x: 2, y: 1.99}, {x: 0, y: 2}]);
+    });
+
+    Test.Case('SVG path reads relative, implicit and shorthand commands', () => {
+        let parsed = PolygonSerialization.FromSVGPath('m10 10 h10 v10 h-10z M0 0 5 0 5 5');
+        Test.Points(parsed[0], [{x: 10, y: 10}, {x: 20, y: 10}, {x: 20, y: 20}, {x: 10, y: 20}]);
+        Test.Points(parsed[1], [{x: 0, y: 0}, {x: 5, y: 0}, {x: 5, y: 5}]);
+    });
+
+    Test.Case('SVG path flattens arcs within tolerance', () => {
+        //Half circle of radius 10 with compact flags
+        let points = PolygonSerialization.FromSVGPath('M0 0a10 10 0 0110 10', 0.01)[0];
+        Test.Points([points[points.length - 1]], [{x: 10, y: 10}]);
+        for (let p of points) Test.Close(Math.sqrt(p.x * p.x + (p.y - 10) * (p.y - 10)), 10, 1e-9, 'Distance from arc center');
+    });
+
+    Test.Case('SVG points round trip', () => {
+        let text: string = PolygonSerialization.ToSVGPoints(triangle.outer);
+        Test.Equal(text, '20.5,0 30.25,5 20.5,10');
+        Test.Points(PolygonSerialization.FromSVGPoints(text), triangle.outer);
+    });
+
+    Test.Case('GeoJSON Polygon round trip keeps holes', () => {
+        let geojson = PolygonSerialization.ToGeoJSON([square]);
+        Test.Equal(geojson.type, 'Polygon');
+        Test.Equal(geojson.coordinates.length, 3, 'Number of rings');
+        SamePolygons(PolygonSerialization.FromGeoJSON(JSON.stringify(geojson)), [square]);
+    });
+
+    Test.Case('GeoJSON MultiPolygon round trip', () => {
+        let geojson = PolygonSerialization.ToGeoJSON([square, triangle]);
+        Test.Equal(geojson.type, 'MultiPolygon');
+        SamePolygons(PolygonSerialization.FromGeoJSON(JSON.stringify(geojson)), [square, triangle]);
+    });
+
+    Test.Case('GeoJSON output follows right-hand rule and closes rings', () => {
+        let reversed = {outer: square.outer.slice().reverse(), holes: square.holes.map(hole => hole.slice().reverse())};
+        let geojson = PolygonSerialization.ToGeoJSON([reversed]);
+        if (geojson.type !== 'Polygon') throw new Error('Expected Polygon');
+        for (let ring of geojson.coordinates) Test.Equal(ring[0].join(), ring[ring.length - 1].join(), 'Ring is closed');
+        //Exterior is counter-clockwise with y axis up, so it has positive area on canvas
+        let outer = geojson.coordinates[0].slice(1).map(position => ({x: position[0], y: position[1]}));
+        Test.Equal(Polygon.GetArea(outer, true) > 0, true, 'Exterior winding');
+    });
+
+    Test.Case('GeoJSON reads features, collections and geometry collections', () => {
+        let polygons = PolygonSerialization.FromGeoJSON({
+            type: 'FeatureCollection',
+            features: [
+                {type: 'Feature', geometry: PolygonSerialization.ToGeoJSON([square]), properties: {name: 'square'}},
+                {type: 'Feature', geometry: null},
+                {type: 'Feature', geometry: {type: 'GeometryCollection', geometries: [PolygonSerialization.ToGeoJSON([triangle])]}}
+            ]
+        });
+        SamePolygons(polygons, [square, triangle]);
+        Test.Throws(() => PolygonSerialization.FromGeoJSON('{"type": "Point", "coordinates": [0, 0]}'));
+    });
+
+    Test.Case('WKT POLYGON round trip keeps holes', () => {
+        let wkt: string = PolygonSerialization.ToWKT([square]);
+        Test.Equal(wkt.indexOf('POLYGON ((0 0, 10 0, 10 10, 0 10, 0 0), (2 2'), 0, 'WKT starts with closed outer ring');
+        SamePolygons(PolygonSerialization.FromWKT(wkt), [square]);
+    });
+
+    Test.Case('WKT MULTIPOLYGON round trip', () => {
+        let wkt: string = PolygonSerialization.ToWKT([square, triangle]);
+        Test.Equal(wkt.indexOf('MULTIPOLYGON ((('), 0, 'WKT type');
+        SamePolygons(PolygonSerialization.FromWKT(wkt), [square, triangle]);
+    });
+
+    Test.Case('WKT reads EMPTY and ignores Z coordinates', () => {
+        Test.Equal(PolygonSerialization.ToWKT([]), 'MULTIPOLYGON EMPTY');
+        Test.Equal(PolygonSerialization.FromWKT('MULTIPOLYGON EMPTY').length, 0);
+        SamePolygons(PolygonSerialization.FromWKT('polygon z ((20.5 0 1, 30.25 5 2, 20.5 10 3, 20.5 0 1))'), [triangle]);
+        Test.Throws(() => PolygonSerialization.FromWKT('POLYGON ((0 0, 1 0, 1 1)'));
+        Test.Throws(() => PolygonSerialization.FromWKT('LINESTRING (0 0, 1 1)'));
+    });
+}
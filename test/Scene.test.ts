@@ -0,0 +1,73 @@
+/// <reference path="Test.ts" />
+
+namespace SceneTest {
+
+    function Setup(): { scene: Scene, input: Input, node: SceneNode, clicks: string[] } {
+        let canvas: Canvas = new Canvas(100, 100, {element: Test.CanvasElement()});
+        let input: Input = new Input(canvas);
+        let scene: Scene = new Scene(canvas, input);
+        let group: SceneNode = new SceneNode('group'), node: SceneNode = new SceneNode('button');
+        node.position = new Vector2(50, 50);
+        node.shape = {center: {x: 0, y: 0}, radius: 10};
+        group.add(node);
+        scene.add(group);
+        let clicks: string[] = [];
+        node.on('click', event => clicks.push(event.currentTarget.name));
+        group.on('click', event => clicks.push(event.currentTarget.name));
+        return {scene: scene, input: input, node: node, clicks: clicks};
+    }
+
+    //Each event is one frame, scene reads input before it's cleared
+    function Frames(scene: Scene, input: Input, events: SyntheticInput[]): void {
+        for (let event of events) {
+            input.inject(event);
+            scene.update();
+            input.update();
+        }
+    }
+
+    Test.Case('click bubbles from node pressed and released with primary button', () => {
+        let {scene, input, clicks} = Setup();
+        Frames(scene, input, [
+            {type: 'pointerdown', x: 50, y: 50, button: 0, time: 0},
+            {type: 'pointerup', x: 52, y: 50, button: 0, time: 1000}
+        ]);
+        Test.Equal(clicks.join(), 'button,group', 'Long press clicks too');
+    });
+
+    Test.Case('click ignores other buttons and release over other node', () => {
+        let {scene, input, clicks} = Setup();
+        Frames(scene, input, [
+            {type: 'pointerdown', x: 50, y: 50, button: 2, time: 0},
+            {type: 'pointerup', x: 50, y: 50, button: 2, time: 10},
+            {type: 'pointerdown', x: 50, y: 50, button: 1, time: 20},
+            {type: 'pointerup', x: 50, y: 50, button: 1, time: 30},
+            {type: 'pointerdown', x: 50, y: 50, button: 0, time: 40},
+            {type: 'pointerup', x: 90, y: 90, button: 0, time: 50},
+            {type: 'pointerdown', x: 90, y: 90, button: 0, time: 60},
+            {type: 'pointerup', x: 50, y: 50, button: 0, time: 70}
+        ]);
+        Test.Equal(clicks.length, 0, 'Number of clicks');
+    });
+
+    Test.Case('touch press and release clicks', () => {
+        let {scene, input, clicks} = Setup();
+        Frames(scene, input, [
+            {type: 'pointerdown', id: 1, x: 45, y: 55, pointerType: 'touch', time: 0},
+            {type: 'pointerup', id: 1, x: 45, y: 55, pointerType: 'touch', time: 100}
+        ]);
+        Test.Equal(clicks.join(), 'button,group');
+    });
+
+    Test.Case('picking follows ellipse of non-uniformly scaled circle', () => {
+        let node: SceneNode = new SceneNode();
+        node.shape = {center: {x: 0, y: 0}, radius: 1};
+        node.scale = new Vector2(4, 1);
+        node.rotation = Math.PI / 2;
+        //Rotated ellipse spans 4 units along y axis and 1 unit along x axis
+        Test.Equal(node.containsPoint(new Vector2(0, 3.5)), true, 'Point inside ellipse');
+        Test.Equal(node.containsPoint(new Vector2(1.5, 0)), false, 'Point outside ellipse');
+        node.scale = new Vector2(0, 1);
+        Test.Equal(node.containsPoint(new Vector2(0, 0)), false, 'Collapsed node');
+    });
+}
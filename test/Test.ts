@@ -0,0 +1,93 @@
+/**
+ * Minimal test harness for the global scripts, cases run immediately and report to console.
+ * Any failed case makes the run fail with an uncaught error after all cases were reported.
+ */
+namespace Test {
+
+    let _failures = 0;
+
+    /**
+     * Runs test case and reports its result
+     * @param {string} name
+     * @param {() => void} body Throws on failure
+     */
+    export function Case(name: string, body: () => void): void {
+        try {
+            body();
+            console.log(`ok - ${name}`);
+        } catch (e) {
+            if (_failures++ === 0) setTimeout(() => {
+                throw new Error(`${_failures} test case(s) failed`);
+            }, 0);
+            console.log(`not ok - ${name}\n    ${e instanceof Error ? e.message : e}`);
+        }
+    }
+
+    /**
+     * Checks strict equality
+     * @param {T} actual
+     * @param {T} expected
+     * @param {string} message
+     */
+    export function Equal<T>(actual: T, expected: T, message?: string): void {
+        if (actual !== expected) throw new Error(`${message || 'Values differ'}: expected ${expected}, got ${actual}`);
+    }
+
+    /**
+     * Checks that numbers differ at most by epsilon
+     * @param {number} actual
+     * @param {number} expected
+     * @param {number} epsilon (default 1e-9)
+     * @param {string} message
+     */
+    export function Close(actual: number, expected: number, epsilon?: number, message?: string): void {
+        if (!(Math.abs(actual - expected) <= (epsilon === undefined ? 1e-9 : epsilon))) {
+            throw new Error(`${message || 'Numbers differ'}: expected ${expected}, got ${actual}`);
+        }
+    }
+
+    /**
+     * Checks that points of both arrays match in order
+     * @param {Array<{x: number, y: number}>} actual
+     * @param {Array<{x: number, y: number}>} expected
+     * @param {number} epsilon (default 1e-9)
+     */
+    export function Points(actual: Array<{ x: number, y: number }>, expected: Array<{ x: number, y: number }>, epsilon?: number): void {
+        Equal(actual.length, expected.length, 'Number of points');
+        for (let i = 0; i < expected.length; i++) {
+            Close(actual[i].x, expected[i].x, epsilon, `x of point ${i}`);
+            Close(actual[i].y, expected[i].y, epsilon, `y of point ${i}`);
+        }
+    }
+
+    /**
+     * Creates stub of canvas element for Canvas option 'element', only members used by Canvas are provided
+     * @param {object} context Returned by getContext (default context ignoring setTransform)
+     * @param {{clientWidth: number, clientHeight: number}} parent Parent element sized by 'fit' and 'letterbox' modes
+     * @returns {HTMLCanvasElement}
+     */
+    export function CanvasElement(context?: object, parent?: { clientWidth: number, clientHeight: number }): HTMLCanvasElement {
+        let element = {
+            width: 0,
+            height: 0,
+            style: {},
+            parentElement: parent || null,
+            getContext: () => context || {setTransform: () => undefined}
+        };
+        return <HTMLCanvasElement><unknown>element;
+    }
+
+    /**
+     * Checks that function throws
+     * @param {() => void} body
+     */
+    export function Throws(body: () => void): void {
+        let thrown: boolean = false;
+        try {
+            body();
+        } catch (e) {
+            thrown = true;
+        }
+        if (!thrown) throw new Error('Expected error');
+    }
+}
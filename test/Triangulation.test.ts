@@ -0,0 +1,85 @@
+/// <reference path="Test.ts" />
+
+namespace TriangulationTest {
+
+    //Irregular star with 60 vertices, ear clipping leaves many thin triangles in it
+    function Star(radius: number): Array<{ x: number, y: number }> {
+        let random: Random = new Random(3);
+        let toReturn: Array<{ x: number, y: number }> = [];
+        for (let i = 0; i < 60; i++) {
+            let r: number = radius * (i % 2 === 0 ? random.float(0.8, 1.2) : random.float(0.3, 0.5));
+            let angle: number = i / 60 * Math.PI * 2;
+            toReturn.push({x: 50 * radius + Math.cos(angle) * r, y: -20 * radius + Math.sin(angle) * r});
+        }
+        return toReturn;
+    }
+
+    //Counts inner edges whose opposite vertex lies clearly inside circumcircle of neighbouring triangle
+    function Violations(points: Array<{ x: number, y: number }>, triangles: number[][]): number {
+        let edges: Map<string, number[]> = new Map();
+        for (let triangle of triangles) {
+            for (let corner = 0; corner < 3; corner++) {
+                let a: number = triangle[corner], b: number = triangle[(corner + 1) % 3];
+                let key: string = Math.min(a, b) + '|' + Math.max(a, b);
+                edges.set(key, (edges.get(key) || []).concat([triangle[(corner + 2) % 3]]));
+            }
+        }
+        let toReturn = 0;
+        edges.forEach((opposite, key) => {
+            if (opposite.length !== 2) return;
+            let [a, b] = key.split('|').map(Number);
+            let center = Circumcenter(points[a], points[b], points[opposite[0]]);
+            let radius: number = Math.hypot(points[a].x - center.x, points[a].y - center.y);
+            let distance: number = Math.hypot(points[opposite[1]].x - center.x, points[opposite[1]].y - center.y);
+            if (distance < radius * (1 - 1e-9)) toReturn++;
+        });
+        return toReturn;
+    }
+
+    function Circumcenter(a: { x: number, y: number }, b: { x: number, y: number }, c: { x: number, y: number }): { x: number, y: number } {
+        let bx: number = b.x - a.x, by: number = b.y - a.y, cx: number = c.x - a.x, cy: number = c.y - a.y;
+        let d: number = 2 * (bx * cy - by * cx);
+        return {
+            x: a.x + (cy * (bx * bx + by * by) - by * (cx * cx + cy * cy)) / d,
+            y: a.y + (bx * (cx * cx + cy * cy) - cx * (bx * bx + by * by)) / d
+        };
+    }
+
+    function Area(points: Array<{ x: number, y: number }>, triangles: number[][]): number {
+        return triangles.reduce((sum, t) => sum + Polygon.GetArea([points[t[0]], points[t[1]], points[t[2]]], true), 0);
+    }
+
+    Test.Case('constrained Delaunay removes violations at any scale', () => {
+        for (let radius of [100, 0.01, 0.001]) {
+            let star = Star(radius);
+            Test.Equal(Violations(star, Triangulation.EarClipping(star)) > 0, true, `Ear clipping violations at radius ${radius}`);
+            let triangles: number[][] = Triangulation.ConstrainedDelaunay(star);
+            Test.Equal(triangles.length, star.length - 2, `Number of triangles at radius ${radius}`);
+            Test.Equal(Violations(star, triangles), 0, `Delaunay violations at radius ${radius}`);
+            Test.Close(Area(star, triangles), Polygon.GetArea(star, true), radius * radius * 1e-9, `Area at radius ${radius}`);
+        }
+    });
+
+    Test.Case('constrained Delaunay keeps edges of polygon and holes', () => {
+        let square = [{x: 0, y: 0}, {x: 10, y: 0}, {x: 10, y: 10}, {x: 0, y: 10}];
+        let hole = [{x: 4, y: 4}, {x: 6, y: 4}, {x: 6, y: 6}, {x: 4, y: 6}];
+        let points = square.concat(hole);
+        let triangles: number[][] = Triangulation.ConstrainedDelaunay(square, [hole]);
+        Test.Close(Area(points, triangles), 96);
+        let edges: Set<string> = new Set();
+        for (let t of triangles) for (let corner = 0; corner < 3; corner++) edges.add(t[corner] + '|' + t[(corner + 1) % 3]);
+        for (let ring of [[0, 1, 2, 3], [4, 5, 6, 7]]) {
+            for (let i = 0; i < 4; i++) {
+                let a: number = ring[i], b: number = ring[(i + 1) % 4];
+                Test.Equal(edges.has(a + '|' + b) || edges.has(b + '|' + a), true, `Edge ${a}-${b}`);
+            }
+        }
+    });
+
+    Test.Case('constrained Delaunay finishes on cocircular points', () => {
+        let circle = Array.from({length: 64}, (v, i) => ({x: Math.cos(i / 64 * Math.PI * 2), y: Math.sin(i / 64 * Math.PI * 2)}));
+        let triangles: number[][] = Triangulation.ConstrainedDelaunay(circle);
+        Test.Equal(triangles.length, 62);
+        Test.Close(Area(circle, triangles), Polygon.GetArea(circle, true));
+    });
+}
@@ -0,0 +1,45 @@
+/// <reference path="Test.ts" />
+
+namespace TweenTest {
+
+    Test.Case('tween interpolates numbers, vectors and colors', () => {
+        let target = {alpha: 0, position: new Vector2(0, 0), color: '#000000'};
+        let tween: Tween<typeof target> = new Tween(target).to({alpha: 1, position: {x: 10, y: -20}, color: '#ff0000'}, 100).start();
+        tween.update(50);
+        Test.Close(target.alpha, 0.5);
+        Test.Points([target.position], [{x: 5, y: -10}]);
+        Test.Equal(target.color, 'rgba(128, 0, 0, 1)');
+        Test.Equal(tween.update(50), false, 'Completed tween');
+        Test.Equal(target.color, 'rgba(255, 0, 0, 1)');
+    });
+
+    Test.Case('tween repeats with yoyo and reports cycles', () => {
+        let target = {x: 0}, cycles: number[] = [];
+        let tween: Tween<typeof target> = new Tween(target).to({x: 10}, 100).repeat(2).yoyo().onRepeat((t, cycle) => cycles.push(cycle)).start();
+        Test.Equal(tween.getDuration(), 300);
+        tween.setTime(150);
+        Test.Close(target.x, 5);
+        tween.setTime(175);
+        Test.Close(target.x, 2.5, 1e-9, 'Backwards in odd cycle');
+        Test.Equal(tween.setTime(300), false, 'Completed tween');
+        Test.Close(target.x, 10);
+        Test.Equal(cycles.join(), '1,2');
+    });
+
+    Test.Case('zero-duration tween with endless repeats completes', () => {
+        let target = {x: 0};
+        let tween: Tween<typeof target> = new Tween(target).to({x: 1}, 0).repeat(Infinity).delay(20).start();
+        Test.Equal(tween.getDuration(), 20);
+        Test.Equal(tween.setTime(10), true, 'Waiting for delay');
+        Test.Equal(tween.setTime(20), false, 'Completed tween');
+        Test.Equal(target.x, 1);
+        let timeline: Timeline = new Timeline().add(tween).add(new Tween({y: 0}).to({y: 1}, 50));
+        Test.Equal(timeline.getDuration(), 70, 'Timeline places next animation after delay');
+    });
+
+    Test.Case('tween rejects property of different type', () => {
+        //Loaded data may not match its declared type
+        let target: { x: number } = JSON.parse('{"x": "left"}');
+        Test.Throws(() => new Tween(target).to({x: 5}, 10).start().update(5));
+    });
+}
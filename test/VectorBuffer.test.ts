@@ -0,0 +1,36 @@
+/// <reference path="Test.ts" />
+
+namespace VectorBufferTest {
+
+    Test.Case('swapRemove moves last vector into removed slot', () => {
+        let buffer: VectorBuffer = VectorBuffer.FromArray([{x: 1, y: 2}, {x: 3, y: 4}, {x: 5, y: 6}]);
+        buffer.swapRemove(0);
+        Test.Equal(buffer.length, 2);
+        Test.Points(buffer.toArray(), [{x: 5, y: 6}, {x: 3, y: 4}]);
+        buffer.swapRemove(1);
+        Test.Points(buffer.toArray(), [{x: 5, y: 6}]);
+    });
+
+    Test.Case('swapRemove rejects index out of range', () => {
+        let buffer: VectorBuffer = new VectorBuffer();
+        Test.Throws(() => buffer.swapRemove(0));
+        buffer.push(1, 2);
+        Test.Throws(() => buffer.swapRemove(1));
+        Test.Throws(() => buffer.swapRemove(-1));
+        Test.Equal(buffer.length, 1, 'Length is kept');
+        Test.Points(buffer.toArray(), [{x: 1, y: 2}]);
+    });
+
+    Test.Case('pool reuses released vectors', () => {
+        let pool: Vector2Pool = new Vector2Pool();
+        let a: Vector2 = pool.acquire(1, 2), b: Vector2 = pool.acquire();
+        Test.Equal(pool.inUse(), 2);
+        pool.release(a);
+        Test.Equal(pool.acquire(3, 4), a, 'Released vector is reused');
+        Test.Points([a], [{x: 3, y: 4}]);
+        pool.releaseAll();
+        Test.Equal(pool.inUse(), 0);
+        Test.Equal(pool.available() >= 2, true, 'Available after releaseAll');
+        Test.Throws(() => pool.release(b));
+    });
+}